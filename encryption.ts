@@ -0,0 +1,203 @@
+import { StorageError } from "./index.ts";
+import type { Adapter, AsyncAdapter } from "./index.ts";
+
+/** A passphrase stretched into an AES-GCM key with PBKDF2-SHA-256. */
+export type EncryptionPassphrase = {
+  passphrase: string;
+  /** Salt for the derivation; keep it stable, or stored values can no longer be decrypted. */
+  salt: string;
+  /** @default 600_000 */
+  iterations?: number;
+};
+
+/**
+ * Configuration options for EncryptedAdapter.
+ * @template SetConfig - Optional configuration type for the setItem method.
+ */
+export type EncryptionConfig<SetConfig = unknown> = {
+  /** Adapter the ciphertext is written to. A synchronous adapter such as localStorage works too. */
+  adapter: AsyncAdapter<SetConfig> | Adapter<SetConfig>;
+  /**
+   * AES-GCM keys by key ID: a CryptoKey, or a passphrase to derive one from. Every key decrypts
+   * the values written with it, so keep retired keys here until their values are rewritten.
+   */
+  keys: Record<string, CryptoKey | EncryptionPassphrase>;
+  /** ID of the key new values are encrypted with. */
+  keyId: string;
+};
+
+/** A stored value could not be decrypted: it was tampered with, or its key is unknown. */
+export class StorageDecryptionError extends StorageError {
+  override name = "StorageDecryptionError";
+}
+
+/** What the wrapped adapter stores for each value. */
+type Ciphertext = { kid: string; iv: string; data: string };
+
+const IV_LENGTH = 12;
+
+/**
+ * Async adapter that encrypts values with AES-GCM before handing them to another adapter.
+ * Each write uses a random IV and records the ID of its key; the storage key is bound as
+ * additional data, so a value copied to another key fails to decrypt. Keys are not encrypted.
+ */
+export class EncryptedAdapter<SetConfig = unknown> implements AsyncAdapter<SetConfig> {
+  private readonly adapter: AsyncAdapter<SetConfig> | Adapter<SetConfig>;
+  private readonly cryptoKeys: Record<string, CryptoKey | EncryptionPassphrase>;
+  private readonly keyId: string;
+  private readonly derived = new Map<string, Promise<CryptoKey>>();
+
+  constructor(config: EncryptionConfig<SetConfig>) {
+    if (!(config.keyId in config.keys)) {
+      throw new TypeError(`No encryption key with ID "${config.keyId}"`);
+    }
+    this.adapter = config.adapter;
+    this.cryptoKeys = config.keys;
+    this.keyId = config.keyId;
+  }
+
+  async clear(): Promise<void> {
+    await this.adapter.clear?.();
+  }
+
+  async keys(): Promise<string[]> {
+    const { adapter } = this;
+    if ("keys" in adapter && adapter.keys) return await adapter.keys();
+    if ("key" in adapter && adapter.key && adapter.length !== undefined) {
+      const keys: string[] = [];
+      for (let i = 0; i < adapter.length; i++) {
+        const key = adapter.key(i);
+        if (key !== null) keys.push(key);
+      }
+      return keys;
+    }
+    throw new TypeError(
+      "keys() requires an adapter that implements keys() or key(index) and length",
+    );
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const item = await this.adapter.getItem(key);
+    return item === null ? null : await this.decrypt(key, item);
+  }
+
+  async getItems(keys: string[]): Promise<(string | null)[]> {
+    const items = this.adapter.getItems
+      ? await this.adapter.getItems(keys)
+      : await Promise.all(keys.map((key) => this.adapter.getItem(key)));
+    return await Promise.all(
+      items.map((item, index) => item === null ? null : this.decrypt(keys[index], item)),
+    );
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.adapter.removeItem(key);
+  }
+
+  async removeItems(keys: string[]): Promise<void> {
+    if (this.adapter.removeItems) await this.adapter.removeItems(keys);
+    else for (const key of keys) await this.adapter.removeItem(key);
+  }
+
+  async setItem(key: string, value: string, config?: SetConfig): Promise<void> {
+    await this.adapter.setItem(key, await this.encrypt(key, value), config);
+  }
+
+  async setItems(items: Record<string, string>, config?: SetConfig): Promise<void> {
+    const encrypted: Record<string, string> = {};
+    for (const [key, value] of Object.entries(items)) {
+      encrypted[key] = await this.encrypt(key, value);
+    }
+    if (this.adapter.setItems) await this.adapter.setItems(encrypted, config);
+    else {
+      for (const [key, value] of Object.entries(encrypted)) {
+        await this.adapter.setItem(key, value, config);
+      }
+    }
+  }
+
+  private async encrypt(key: string, value: string): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const data = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: encode(key) },
+      await this.cryptoKey(this.keyId),
+      encode(value),
+    );
+    const ciphertext: Ciphertext = {
+      kid: this.keyId,
+      iv: toBase64(iv),
+      data: toBase64(new Uint8Array(data)),
+    };
+    return JSON.stringify(ciphertext);
+  }
+
+  private async decrypt(key: string, item: string): Promise<string> {
+    let ciphertext: Ciphertext;
+    try {
+      ciphertext = JSON.parse(item);
+    } catch (error) {
+      throw new StorageDecryptionError(`The stored value for "${key}" is not encrypted`, {
+        cause: error,
+      });
+    }
+    if (typeof ciphertext?.kid !== "string" || !(ciphertext.kid in this.cryptoKeys)) {
+      throw new StorageDecryptionError(
+        `No encryption key with ID "${ciphertext?.kid}" for "${key}"`,
+      );
+    }
+    try {
+      const data = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(ciphertext.iv), additionalData: encode(key) },
+        await this.cryptoKey(ciphertext.kid),
+        fromBase64(ciphertext.data),
+      );
+      return new TextDecoder().decode(data);
+    } catch (error) {
+      throw new StorageDecryptionError(`Failed to decrypt the stored value for "${key}"`, {
+        cause: error,
+      });
+    }
+  }
+
+  private cryptoKey(id: string): Promise<CryptoKey> {
+    const key = this.cryptoKeys[id];
+    if (key instanceof CryptoKey) return Promise.resolve(key);
+    let derived = this.derived.get(id);
+    if (!derived) {
+      derived = deriveKey(key);
+      // a failed derivation is retried on the next use
+      derived.catch(() => this.derived.delete(id));
+      this.derived.set(id, derived);
+    }
+    return derived;
+  }
+}
+
+async function deriveKey(
+  { passphrase, salt, iterations = 600_000 }: EncryptionPassphrase,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", encode(passphrase), "PBKDF2", false, [
+    "deriveKey",
+  ]);
+  return await crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt: encode(salt), iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+function encode(value: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(value);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
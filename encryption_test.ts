@@ -0,0 +1,118 @@
+import { AsyncBrowserStorage, MemoryStorageAdapter } from "./index.ts";
+import { EncryptedAdapter, StorageDecryptionError } from "./encryption.ts";
+import { assertEquals, assertNotEquals, assertRejects } from "@std/assert";
+
+Deno.test("encrypted storage", async (t) => {
+  const generateKey = () =>
+    crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+
+  await t.step("round-trips values and stores only ciphertext", async () => {
+    const backing = new MemoryStorageAdapter();
+    const storage = new AsyncBrowserStorage({
+      adapter: new EncryptedAdapter({
+        adapter: backing,
+        keys: { k1: await generateKey() },
+        keyId: "k1",
+      }),
+    });
+
+    await storage.set("token", { refresh: "secret-refresh-token" });
+    assertEquals(await storage.get("token"), { refresh: "secret-refresh-token" });
+    assertEquals(backing.getItem("token")!.includes("secret-refresh-token"), false);
+    assertEquals(JSON.parse(backing.getItem("token")!).kid, "k1");
+  });
+
+  await t.step("uses a fresh IV for every write", async () => {
+    const backing = new MemoryStorageAdapter();
+    const adapter = new EncryptedAdapter({
+      adapter: backing,
+      keys: { k1: await generateKey() },
+      keyId: "k1",
+    });
+
+    await adapter.setItem("one", "same");
+    const first = backing.getItem("one");
+    await adapter.setItem("one", "same");
+    assertNotEquals(backing.getItem("one"), first);
+  });
+
+  await t.step("derives a key from a passphrase", async () => {
+    const backing = new MemoryStorageAdapter();
+    const keys = { p1: { passphrase: "correct horse", salt: "app-salt", iterations: 1_000 } };
+    await new EncryptedAdapter({ adapter: backing, keys, keyId: "p1" }).setItem(
+      "pii",
+      "jane@example.com",
+    );
+
+    const reopened = new EncryptedAdapter({ adapter: backing, keys, keyId: "p1" });
+    assertEquals(await reopened.getItem("pii"), "jane@example.com");
+
+    const wrong = new EncryptedAdapter({
+      adapter: backing,
+      keys: { p1: { ...keys.p1, passphrase: "wrong" } },
+      keyId: "p1",
+    });
+    await assertRejects(() => wrong.getItem("pii"), StorageDecryptionError);
+  });
+
+  await t.step("decrypts values written with a retired key", async () => {
+    const backing = new MemoryStorageAdapter();
+    const k1 = await generateKey();
+    await new EncryptedAdapter({ adapter: backing, keys: { k1 }, keyId: "k1" }).setItem("a", "old");
+
+    const rotated = new EncryptedAdapter({
+      adapter: backing,
+      keys: { k1, k2: await generateKey() },
+      keyId: "k2",
+    });
+    assertEquals(await rotated.getItem("a"), "old");
+    await rotated.setItem("a", "new");
+    assertEquals(JSON.parse(backing.getItem("a")!).kid, "k2");
+    assertEquals(await rotated.getItem("a"), "new");
+
+    const retired = new EncryptedAdapter({ adapter: backing, keys: { k1 }, keyId: "k1" });
+    await assertRejects(() => retired.getItem("a"), StorageDecryptionError, 'ID "k2"');
+  });
+
+  await t.step("detects tampered ciphertext", async () => {
+    const backing = new MemoryStorageAdapter();
+    const storage = new AsyncBrowserStorage({
+      adapter: new EncryptedAdapter({
+        adapter: backing,
+        keys: { k1: await generateKey() },
+        keyId: "k1",
+      }),
+    });
+    await storage.set("token", "secret");
+    await storage.set("other", "value");
+
+    const stored = JSON.parse(backing.getItem("token")!);
+    const flipped = stored.data[0] === "A" ? "B" : "A";
+    backing.setItem("token", JSON.stringify({ ...stored, data: flipped + stored.data.slice(1) }));
+    await assertRejects(() => storage.get("token"), StorageDecryptionError);
+
+    // ciphertext moved to another key does not decrypt either
+    backing.setItem("token", backing.getItem("other")!);
+    await assertRejects(() => storage.get("token"), StorageDecryptionError);
+
+    backing.setItem("token", "plain text");
+    await assertRejects(() => storage.get("token"), StorageDecryptionError);
+  });
+
+  await t.step("supports enumeration and batches", async () => {
+    const storage = new AsyncBrowserStorage({
+      adapter: new EncryptedAdapter({
+        adapter: new MemoryStorageAdapter(),
+        keys: { k1: await generateKey() },
+        keyId: "k1",
+      }),
+      prefix: "app:",
+    });
+
+    await storage.setMany({ one: 1, two: 2 });
+    assertEquals(await storage.getMany(["one", "two"]), { one: 1, two: 2 });
+    assertEquals((await storage.keys()).sort(), ["one", "two"]);
+    await storage.clear();
+    assertEquals(await storage.keys(), []);
+  });
+});
@@ -0,0 +1,256 @@
+import type { Adapter, AsyncAdapter } from "./index.ts";
+
+/** Configuration options for FallbackAdapter and AsyncFallbackAdapter. */
+export type FallbackConfig = {
+  /**
+   * (optional) Writes to every adapter that works instead of only the first one.
+   * @default false
+   */
+  mirror?: boolean;
+};
+
+/** Fired when writes move to a later adapter (`degrade`) or back to an earlier one (`recover`). */
+export type FallbackEvent = {
+  type: "degrade" | "recover";
+  /** Index of the adapter writes went to before. */
+  from: number;
+  /** Index of the adapter writes go to now. */
+  to: number;
+  /** The error that made the earlier adapter fail, for `degrade`. */
+  error?: unknown;
+};
+
+export type FallbackListener = (event: FallbackEvent) => void;
+
+abstract class AbstractFallbackAdapter {
+  protected readonly mirror: boolean;
+  private readonly listeners = new Set<FallbackListener>();
+  private current = 0;
+
+  constructor(count: number, config: FallbackConfig) {
+    if (!count) throw new TypeError("FallbackAdapter requires at least one adapter");
+    this.mirror = config.mirror ?? false;
+  }
+
+  /** Index of the first adapter the last write succeeded on. */
+  get active(): number {
+    return this.current;
+  }
+
+  /**
+   * Listens for writes moving between adapters.
+   * @returns a function that removes the listener
+   */
+  onChange(listener: FallbackListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  protected moveTo(index: number, error?: unknown): void {
+    if (index === this.current) return;
+    const event: FallbackEvent = {
+      type: index > this.current ? "degrade" : "recover",
+      from: this.current,
+      to: index,
+    };
+    if (event.type === "degrade") event.error = error;
+    this.current = index;
+    for (const listener of [...this.listeners]) listener(event);
+  }
+}
+
+/**
+ * Adapter over an ordered list of adapters, for storage that can fail mid-session (Safari
+ * private mode, a full quota). Writes go to the first adapter that accepts them, or to all that
+ * do with `mirror`; reads return the first value found, in order. Each write starts again from
+ * the first adapter, so storage recovers once it works again.
+ */
+export class FallbackAdapter<SetConfig = unknown> extends AbstractFallbackAdapter
+  implements Adapter<SetConfig> {
+  /** The merged keys, kept until a write through this adapter or a change in an adapter's length. */
+  private merged?: { keys: string[]; lengths: (number | undefined)[] };
+
+  constructor(readonly adapters: Adapter<SetConfig>[], config: FallbackConfig = {}) {
+    super(adapters.length, config);
+  }
+
+  /** Number of distinct keys across the adapters that support enumeration. */
+  get length(): number {
+    return this.mergedKeys().length;
+  }
+
+  key(index: number): string | null {
+    return this.mergedKeys()[index] ?? null;
+  }
+
+  clear(): void {
+    this.merged = undefined;
+    this.everywhere((adapter) => adapter.clear?.());
+  }
+
+  getItem(key: string): string | null {
+    let item: string | null = null;
+    this.everywhere((adapter) => {
+      item ??= adapter.getItem(key);
+    });
+    return item;
+  }
+
+  removeItem(key: string): void {
+    this.merged = undefined;
+    this.everywhere((adapter) => adapter.removeItem(key));
+  }
+
+  setItem(key: string, value: string, config?: SetConfig): void {
+    this.merged = undefined;
+    let written: number | undefined;
+    let failure: { error: unknown } | undefined;
+    for (const [index, adapter] of this.adapters.entries()) {
+      if (written !== undefined && !this.mirror) break;
+      try {
+        adapter.setItem(key, value, config);
+        written ??= index;
+      } catch (error) {
+        failure ??= { error };
+        // an older value left behind would shadow the new one on read
+        try {
+          adapter.removeItem(key);
+        } catch {
+          // the adapter is unavailable altogether
+        }
+      }
+    }
+    if (written === undefined) throw failure!.error;
+    this.moveTo(written, failure?.error);
+  }
+
+  /** Runs the operation on every adapter in order, throwing only when all of them fail. */
+  private everywhere(operation: (adapter: Adapter<SetConfig>) => void): void {
+    let failures = 0;
+    let first: unknown;
+    for (const adapter of this.adapters) {
+      try {
+        operation(adapter);
+      } catch (error) {
+        if (!failures++) first = error;
+      }
+    }
+    if (failures === this.adapters.length) throw first;
+  }
+
+  /**
+   * Enumerating calls `length` and `key(index)` once per key, so the merged keys are built once
+   * and reused while no adapter's length changes.
+   */
+  private mergedKeys(): string[] {
+    const lengths = this.adapters.map((adapter) => {
+      try {
+        return adapter.key ? adapter.length : undefined;
+      } catch {
+        return undefined;
+      }
+    });
+    const merged = this.merged;
+    if (merged && lengths.every((length, index) => length === merged.lengths[index])) {
+      return merged.keys;
+    }
+    const keys = new Set<string>();
+    for (const adapter of this.adapters) {
+      if (!adapter.key || adapter.length === undefined) continue;
+      try {
+        for (let i = 0; i < adapter.length; i++) {
+          const key = adapter.key(i);
+          if (key !== null) keys.add(key);
+        }
+      } catch {
+        // an unavailable adapter has no keys to merge
+      }
+    }
+    this.merged = { keys: [...keys], lengths };
+    return this.merged.keys;
+  }
+}
+
+/** AsyncAdapter version of FallbackAdapter; synchronous adapters can be mixed in. */
+export class AsyncFallbackAdapter<SetConfig = unknown> extends AbstractFallbackAdapter
+  implements AsyncAdapter<SetConfig> {
+  constructor(
+    readonly adapters: (AsyncAdapter<SetConfig> | Adapter<SetConfig>)[],
+    config: FallbackConfig = {},
+  ) {
+    super(adapters.length, config);
+  }
+
+  /** Lists the distinct keys across the adapters that support enumeration. */
+  async keys(): Promise<string[]> {
+    const keys = new Set<string>();
+    for (const adapter of this.adapters) {
+      try {
+        if ("keys" in adapter && adapter.keys) {
+          for (const key of await adapter.keys()) keys.add(key);
+        } else if ("key" in adapter && adapter.key && adapter.length !== undefined) {
+          for (let i = 0; i < adapter.length; i++) {
+            const key = adapter.key(i);
+            if (key !== null) keys.add(key);
+          }
+        }
+      } catch {
+        // an unavailable adapter has no keys to merge
+      }
+    }
+    return [...keys];
+  }
+
+  async clear(): Promise<void> {
+    await this.everywhere((adapter) => adapter.clear?.());
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    let item: string | null = null;
+    await this.everywhere(async (adapter) => {
+      item ??= await adapter.getItem(key);
+    });
+    return item;
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.everywhere((adapter) => adapter.removeItem(key));
+  }
+
+  async setItem(key: string, value: string, config?: SetConfig): Promise<void> {
+    let written: number | undefined;
+    let failure: { error: unknown } | undefined;
+    for (const [index, adapter] of this.adapters.entries()) {
+      if (written !== undefined && !this.mirror) break;
+      try {
+        await adapter.setItem(key, value, config);
+        written ??= index;
+      } catch (error) {
+        failure ??= { error };
+        // an older value left behind would shadow the new one on read
+        try {
+          await adapter.removeItem(key);
+        } catch {
+          // the adapter is unavailable altogether
+        }
+      }
+    }
+    if (written === undefined) throw failure!.error;
+    this.moveTo(written, failure?.error);
+  }
+
+  private async everywhere(
+    operation: (adapter: AsyncAdapter<SetConfig> | Adapter<SetConfig>) => unknown,
+  ): Promise<void> {
+    let failures = 0;
+    let first: unknown;
+    for (const adapter of this.adapters) {
+      try {
+        await operation(adapter);
+      } catch (error) {
+        if (!failures++) first = error;
+      }
+    }
+    if (failures === this.adapters.length) throw first;
+  }
+}
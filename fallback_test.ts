@@ -0,0 +1,135 @@
+import { AsyncBrowserStorage, BrowserStorage, MemoryStorageAdapter } from "./index.ts";
+import type { AsyncAdapter } from "./index.ts";
+import { AsyncFallbackAdapter, FallbackAdapter } from "./fallback.ts";
+import type { FallbackEvent } from "./fallback.ts";
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+
+Deno.test("fallback adapter", async (t) => {
+  /** A MemoryStorageAdapter whose writes can be made to fail, like a full localStorage. */
+  class FlakyAdapter extends MemoryStorageAdapter {
+    full = false;
+
+    override setItem(key: string, value: string): void {
+      if (this.full) throw new DOMException("The quota has been exceeded.", "QuotaExceededError");
+      super.setItem(key, value);
+    }
+  }
+
+  await t.step("degrades when the first adapter fails and recovers when it works", () => {
+    const primary = new FlakyAdapter();
+    const memory = new MemoryStorageAdapter();
+    const adapter = new FallbackAdapter([primary, memory]);
+    const events: FallbackEvent[] = [];
+    adapter.onChange((event) => events.push(event));
+    const storage = new BrowserStorage({ adapter });
+
+    storage.set("one", 1);
+    primary.full = true;
+    storage.set("two", 2);
+    assertEquals(adapter.active, 1);
+    assertEquals(memory.getItem("two"), "2");
+    assertEquals(storage.getMany(["one", "two"]), { one: 1, two: 2 });
+
+    primary.full = false;
+    storage.set("three", 3);
+    assertEquals(adapter.active, 0);
+    assertEquals(events.map(({ type, from, to }) => [type, from, to]), [
+      ["degrade", 0, 1],
+      ["recover", 1, 0],
+    ]);
+    assertEquals(events[0].error instanceof DOMException, true);
+  });
+
+  await t.step("a failed write does not leave an older value behind", () => {
+    const primary = new FlakyAdapter();
+    const storage = new BrowserStorage({
+      adapter: new FallbackAdapter([primary, new MemoryStorageAdapter()]),
+    });
+    storage.set("one", "old");
+    primary.full = true;
+    storage.set("one", "new");
+    assertEquals(storage.get("one"), "new");
+  });
+
+  await t.step("mirrors writes to every adapter", () => {
+    const first = new MemoryStorageAdapter();
+    const second = new MemoryStorageAdapter();
+    const storage = new BrowserStorage({
+      adapter: new FallbackAdapter([first, second], { mirror: true }),
+    });
+    storage.set("one", 1);
+    assertEquals([first.getItem("one"), second.getItem("one")], ["1", "1"]);
+
+    storage.remove("one");
+    assertEquals([first.getItem("one"), second.getItem("one")], [null, null]);
+  });
+
+  await t.step("merges keys so a prefixed clear() reaches every adapter", () => {
+    const primary = new FlakyAdapter();
+    const memory = new MemoryStorageAdapter();
+    const storage = new BrowserStorage({
+      adapter: new FallbackAdapter([primary, memory]),
+      prefix: "app:",
+    });
+    storage.set("one", 1);
+    primary.full = true;
+    storage.set("two", 2);
+    primary.setItem = () => {};
+    memory.setItem("other", "x");
+
+    assertEquals(storage.keys().sort(), ["one", "two"]);
+    storage.clear();
+    assertEquals(storage.keys(), []);
+    assertEquals(memory.getItem("other"), "x");
+  });
+
+  await t.step("enumerates many keys in one pass over each adapter", () => {
+    const primary = new MemoryStorageAdapter();
+    const memory = new MemoryStorageAdapter();
+    for (let i = 0; i < 3_000; i++) (i % 2 ? memory : primary).setItem(`app:${i}`, "1");
+    let calls = 0;
+    const key = primary.key.bind(primary);
+    primary.key = (index) => (calls++, key(index));
+    const storage = new BrowserStorage({
+      adapter: new FallbackAdapter([primary, memory]),
+      prefix: "app:",
+    });
+
+    assertEquals(storage.keys().length, 3_000);
+    assertEquals(calls, 1_500);
+    memory.setItem("app:new", "1");
+    assertEquals(storage.keys().length, 3_001);
+    storage.clear();
+    assertEquals(storage.keys(), []);
+  });
+
+  await t.step("fails when every adapter fails", () => {
+    const primary = new FlakyAdapter();
+    primary.full = true;
+    assertThrows(() => new FallbackAdapter([primary]).setItem("one", "1"), DOMException);
+  });
+
+  await t.step("async adapters", async () => {
+    let available = false;
+    const database: AsyncAdapter = {
+      getItem: () => Promise.reject(new Error("unavailable")),
+      removeItem: () => Promise.reject(new Error("unavailable")),
+      setItem: () => available ? Promise.resolve() : Promise.reject(new Error("unavailable")),
+      keys: () => Promise.reject(new Error("unavailable")),
+    };
+    const memory = new MemoryStorageAdapter();
+    const adapter = new AsyncFallbackAdapter([database, memory]);
+    const events: FallbackEvent[] = [];
+    adapter.onChange((event) => events.push(event));
+    const storage = new AsyncBrowserStorage({ adapter, prefix: "app:" });
+
+    await storage.set("one", 1);
+    assertEquals(await storage.get("one"), 1);
+    assertEquals(await storage.keys(), ["one"]);
+    available = true;
+    await storage.set("two", 2);
+    assertEquals(events.map(({ type }) => type), ["degrade", "recover"]);
+
+    await assertRejects(() => new AsyncFallbackAdapter([database]).getItem("one"), Error);
+  });
+});
@@ -19,6 +19,17 @@ export type Adapter<SetConfig = unknown> = {
   length?: number;
   /** (optional) Name of the key at the given index. Enables prefix-scoped clear(); native Storage and MemoryStorageAdapter provide it. */
   key?(index: number): string | null;
+  /** (optional) Retrieves several items at once. getMany() falls back to getItem() per key. */
+  getItems?(keys: string[]): (string | null)[];
+  /** (optional) Sets several items at once. setMany() falls back to setItem() per key. */
+  setItems?(items: Record<string, string>, config?: SetConfig): void;
+  /** (optional) Removes several items at once. removeMany() falls back to removeItem() per key. */
+  removeItems?(keys: string[]): void;
+  /**
+   * (optional) Applies a transaction's writes and removals all-or-nothing. Without it,
+   * transaction() restores the previous items when an operation fails.
+   */
+  commit?(operations: CommitOperation<SetConfig>[]): void;
   /** Retrieves an item from storage */
   getItem(key: string): string | null;
   /** Removes an item from storage */
@@ -37,6 +48,18 @@ export type AsyncAdapter<SetConfig = unknown> = {
   clear?(): Promise<void>;
   /** (optional) Lists all stored keys. Enables prefix-scoped clear(). */
   keys?(): Promise<string[]>;
+  /** (optional) Retrieves several items at once, e.g. in one transaction. getMany() falls back to getItem() per key. */
+  getItems?(keys: string[]): Promise<(string | null)[]>;
+  /** (optional) Sets several items at once. setMany() falls back to setItem() per key. */
+  setItems?(items: Record<string, string>, config?: SetConfig): Promise<void>;
+  /** (optional) Removes several items at once. removeMany() falls back to removeItem() per key. */
+  removeItems?(keys: string[]): Promise<void>;
+  /**
+   * (optional) Applies a transaction's writes and removals all-or-nothing, e.g. in one
+   * IndexedDB transaction. Without it, transaction() restores the previous items when an
+   * operation fails.
+   */
+  commit?(operations: CommitOperation<SetConfig>[]): Promise<void>;
   /** Retrieves an item from storage */
   getItem(key: string): Promise<string | null>;
   /** Removes an item from storage */
@@ -65,14 +88,86 @@ export type StorageConfig = {
    * @default JSON
    */
   serializer?: Serializer;
+  /** (optional) Called with every write failure and every stored value that fails to parse. */
+  onError?: StorageErrorHandler;
+  /**
+   * (optional) Makes failed writes throw their StorageError instead of returning `false`.
+   * @default false
+   */
+  strict?: boolean;
+  /**
+   * (optional) Records when each value is created and updated, and how many times it is
+   * written, alongside the value. Every write reads the entry it replaces to do so.
+   * @default false
+   */
+  metadata?: boolean;
+  /**
+   * (optional) Frees space under the prefix when a write exceeds the quota, then retries it.
+   * Requires an adapter that implements key(index) and length.
+   */
+  eviction?: EvictionPolicy;
+  /**
+   * (optional) Compresses large values with an LZ-based algorithm. Compressed values are read
+   * back whether or not compression is still enabled.
+   */
+  compression?: boolean | CompressionOptions;
+  /**
+   * (optional) Name of a `BroadcastChannel` to publish writes on. Instances on the same channel
+   * apply each other's writes to their adapter and notify their listeners, so it suits adapters
+   * that are not shared between tabs or workers, like MemoryStorageAdapter.
+   */
+  sync?: string;
+};
+
+/** Options for compressing stored values. */
+export type CompressionOptions = {
+  /**
+   * (optional) Serialized length, in characters, from which a value is compressed.
+   * @default 1024
+   */
+  threshold?: number;
 };
 
+/**
+ * Which entries BrowserStorage evicts first when the quota is exceeded.
+ * - `lru`: the least recently read or written.
+ * - `priority`: the lowest `priority`, then the least recently used.
+ * Pinned keys are never evicted.
+ */
+export type EvictionPolicy = "lru" | "priority";
+
+/**
+ * How AsyncBrowserStorage uses its in-memory cache.
+ * - `none`: every operation goes to the adapter.
+ * - `read-through`: reads are served from memory after the first adapter read; writes invalidate.
+ * - `write-through`: like `read-through`, but writes also update the cache.
+ * - `write-behind`: writes land in memory and reach the adapter on `flush()`.
+ */
+export type CachePolicy = "none" | "read-through" | "write-through" | "write-behind";
+
 export type AsyncStorageConfig = {
   /**
    * AsyncAdapter for interacting with storage.
    * @default MemoryStorageAdapter
    */
   adapter: AsyncAdapter;
+  /**
+   * (optional) Cache policy for the in-memory cache.
+   * @default "none"
+   */
+  cache?: CachePolicy;
+  /**
+   * (optional) Milliseconds a `write-behind` write waits before it is flushed. When unset, pending
+   * writes are flushed when the browser is idle (or on the next task where `requestIdleCallback`
+   * is unavailable).
+   */
+  flushInterval?: number;
+  /**
+   * (optional) Also serializes `update()` and `compareAndSet()` across tabs with the Web Locks
+   * API (`navigator.locks`) when it is available.
+   * @default false
+   */
+  crossTabLocks?: boolean;
   /**
    * (optional) Prefix for all storage keys.
    * @default ""
@@ -83,8 +178,334 @@ export type AsyncStorageConfig = {
    * @default JSON
    */
   serializer?: Serializer;
+  /** (optional) Called with every write failure and every stored value that fails to parse. */
+  onError?: StorageErrorHandler;
+  /**
+   * (optional) Makes failed writes throw their StorageError instead of returning `false`.
+   * @default false
+   */
+  strict?: boolean;
+  /**
+   * (optional) Records when each value is created and updated, and how many times it is
+   * written, alongside the value. Every write reads the entry it replaces to do so.
+   * @default false
+   */
+  metadata?: boolean;
+  /**
+   * (optional) Compresses large values with `CompressionStream` before they reach the adapter.
+   * Compressed values are read back whether or not compression is still enabled.
+   */
+  compression?: boolean | CompressionOptions;
+  /**
+   * (optional) Name of a `BroadcastChannel` to publish writes on. Instances on the same channel
+   * apply each other's writes to their in-memory cache and notify their listeners.
+   */
+  sync?: string;
+};
+
+/** Base class for errors reported by the storage. The original error is kept as `cause`. */
+export class StorageError extends Error {
+  override name = "StorageError";
+}
+
+/** The storage quota was exceeded while writing. */
+export class StorageQuotaError extends StorageError {
+  override name = "StorageQuotaError";
+}
+
+/** The serializer could not stringify a value. */
+export class StorageSerializationError extends StorageError {
+  override name = "StorageSerializationError";
+}
+
+/** The adapter failed for a reason other than the quota. */
+export class StorageAdapterError extends StorageError {
+  override name = "StorageAdapterError";
+}
+
+/** A stored value could not be parsed; it was returned raw. */
+export class StorageParseError extends StorageError {
+  override name = "StorageParseError";
+}
+
+/** A change listener threw. The change it heard about was made, and other listeners heard it. */
+export class StorageListenerError extends StorageError {
+  override name = "StorageListenerError";
+}
+
+/** Where a reported StorageError happened. */
+export type StorageErrorContext = {
+  /** The storage operation that failed. */
+  operation: "get" | "set" | "flush" | "sync" | "transaction" | "notify";
+  /** The key involved, without the prefix, when the failure concerns a single key. */
+  key?: string;
+};
+
+/** Receives every StorageError the storage reports. */
+export type StorageErrorHandler = (error: StorageError, context: StorageErrorContext) => void;
+
+/**
+ * Per-write options handled by the storage itself (never passed to the adapter).
+ */
+export type SetOptions = {
+  /** (optional) Milliseconds until the value expires. */
+  ttl?: number;
+  /** (optional) Absolute expiry as a Date or epoch milliseconds. Takes precedence over `ttl`. */
+  expiresAt?: Date | number;
+  /** (optional) Schema version stored alongside the value, read by `define()` migrations. */
+  version?: number;
+  /** (optional) Eviction priority; lower priorities are evicted first under the `priority` policy. */
+  priority?: number;
+  /** (optional) Never evict this key to make room for other writes. */
+  pinned?: boolean;
+  /** (optional) Tags stored alongside the value, for `entriesWithMeta()` filters. */
+  tags?: string[];
+};
+
+/** What is stored about an entry besides its value; fields it was written without are absent. */
+export type EntryMetadata = {
+  /** When the key was first written with `metadata` on, in epoch milliseconds. */
+  createdAt?: number;
+  /** When the value was last written with `metadata` on, in epoch milliseconds. */
+  updatedAt?: number;
+  /** Writes counted since `createdAt`. */
+  writes?: number;
+  /** Tags from the `tags` option of the last write. */
+  tags?: string[];
+  /** Expiry in epoch milliseconds. */
+  expiresAt?: number;
+  /** Schema version, read by `define()` migrations. */
+  version?: number;
+  /** Set by the `pinned` option; eviction never removes the entry. */
+  pinned?: boolean;
+  /** Set by the `priority` option; the `"priority"` eviction policy removes low ones first. */
+  priority?: number;
+};
+
+/** A value together with its metadata, as returned by `getWithMeta()`. */
+export type EntryWithMeta<T = unknown> = { value: T; meta: EntryMetadata };
+
+/**
+ * Narrows `entriesWithMeta()`. Age filters compare against `updatedAt`, so entries written
+ * without metadata never match them.
+ */
+export type MetadataFilter = {
+  /** (optional) Entries last written at least this many milliseconds ago. */
+  olderThan?: number;
+  /** (optional) Entries last written less than this many milliseconds ago. */
+  newerThan?: number;
+  /** (optional) Entries carrying every one of these tags. */
+  tags?: string[];
+};
+
+/**
+ * Migration steps keyed by the version they produce: `migrations[2]` turns a version 1 value
+ * into a version 2 value. Values stored without a version are treated as version 0.
+ */
+export type Migrations = Record<number, (value: never) => unknown>;
+
+/**
+ * Minimal Standard Schema (v1) interface, as implemented by zod, valibot, arktype and others.
+ * @see https://standardschema.dev
+ */
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    validate(
+      value: unknown,
+    ): StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+};
+
+/** Result of a Standard Schema validation. */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/** A single validation issue reported by a Standard Schema. */
+export type StandardSchemaIssue = {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+};
+
+/**
+ * Runtime validator for a defined key: a type guard or a Standard Schema-compatible object.
+ * @template T - The validated value type.
+ */
+export type Validator<T> = ((value: unknown) => value is T) | StandardSchemaV1<unknown, T>;
+
+/** Details passed to `onInvalid` when a stored value fails validation. */
+export type InvalidValueEvent = {
+  /** The full (prefixed) storage key. */
+  key: string;
+  /** The deserialized value that failed validation. */
+  value: unknown;
+  issues: ReadonlyArray<StandardSchemaIssue>;
+};
+
+/**
+ * Default options for a defined storage key. The `SetOptions` apply to every `set` made through it.
+ * @template DefinedType - The value type stored at this key.
+ */
+export type DefineOptions<DefinedType = unknown> = SetOptions & {
+  /** (optional) Validates values on read; invalid values are never returned. */
+  validate?: Validator<DefinedType>;
+  /** (optional) Returned instead of `null` when the value is missing or invalid. */
+  defaultValue?: DefinedType;
+  /** (optional) Removes a stored value that fails validation. */
+  removeInvalid?: boolean;
+  /** (optional) Called when a stored value fails validation. */
+  onInvalid?(event: InvalidValueEvent): void;
+  /** (optional) Current schema version; every value written through the key carries it. */
+  version?: number;
+  /** (optional) Steps run on read to bring older values up to `version`; the result is written back. */
+  migrations?: Migrations;
+};
+
+/**
+ * Everything under a prefix, as captured by `exportSnapshot()`. Plain JSON, so it can be saved
+ * or sent elsewhere and restored with `importSnapshot()`.
+ */
+export type StorageSnapshot =
+  & {
+    /** Version of the snapshot format. */
+    version: 1;
+    /** The prefix the snapshot was taken under; entries are keyed without it. */
+    prefix: string;
+    /** When the snapshot was taken, in milliseconds since the epoch. */
+    createdAt: number;
+  }
+  & (
+    | { format: "values"; entries: Record<string, SnapshotEntry> }
+    | { format: "raw"; entries: Record<string, string> }
+  );
+
+/** A deserialized value in a snapshot, with its expiry and schema version. */
+export type SnapshotEntry = EntryMetadata & { value: unknown };
+
+export type ExportOptions = {
+  /**
+   * (optional) `values` stores deserialized values and skips expired entries; `raw` stores the
+   * items exactly as the adapter holds them.
+   * @default "values"
+   */
+  format?: "values" | "raw";
+};
+
+/**
+ * How `importSnapshot()` treats keys that already exist.
+ * - `merge`: overwrites them and keeps keys missing from the snapshot.
+ * - `replace`: overwrites them and removes keys missing from the snapshot.
+ * - `skip-existing`: keeps them and only adds new keys.
+ */
+export type ImportStrategy = "merge" | "replace" | "skip-existing";
+
+export type ImportOptions = {
+  /** @default "merge" */
+  strategy?: ImportStrategy;
+  /** (optional) Reports what the import would do without writing anything. */
+  dryRun?: boolean;
+};
+
+/** Keys, without the prefix, by what `importSnapshot()` did with them. */
+export type ImportResult = {
+  added: string[];
+  overwritten: string[];
+  /** Existing keys kept by `skip-existing`, and expired snapshot entries. */
+  skipped: string[];
+  /** Existing keys missing from the snapshot, under `replace`. */
+  removed: string[];
+};
+
+/**
+ * Operations staged by a `transaction()` callback. They are applied together once the
+ * callback returns.
+ * @template SetConfig - Optional configuration type for the set method.
+ */
+export type Transaction<SetConfig = unknown> = {
+  set(key: string, value: unknown, config?: SetConfig, options?: SetOptions): void;
+  remove(key: string): void;
+};
+
+/** A transaction's write (`item`) or removal (`item: null`), by full key, as `commit()` gets it. */
+export type CommitOperation<SetConfig = unknown> = {
+  key: string;
+  item: string | null;
+  config?: SetConfig;
+};
+
+/** Outcome of `transaction()`; `keys` are the keys it staged, without the prefix. */
+export type TransactionResult =
+  | { status: "committed"; keys: string[] }
+  | {
+    status: "rolled-back";
+    keys: string[];
+    error: StorageError;
+    /** Keys whose previous item could not be put back, left as the failed operations made them. */
+    unrestored: string[];
+  };
+
+type StagedOperation<SetConfig> =
+  | { type: "set"; key: string; value: unknown; config?: SetConfig; options?: SetOptions }
+  | { type: "remove"; key: string };
+
+/** Bytes a key and its stored item take. */
+export type KeyUsage = { key: string; bytes: number };
+
+/** What the keys under a prefix take, as reported by `usage()`. */
+export type StorageUsage = {
+  /**
+   * Bytes the keys (prefix included) and stored items take: UTF-16 for BrowserStorage, as Web
+   * Storage counts them, and UTF-8 for AsyncBrowserStorage.
+   */
+  bytes: number;
+  /** Every key under the prefix, without the prefix, largest first. */
+  keys: KeyUsage[];
+  /** The largest keys, at most `top` of them. */
+  largest: KeyUsage[];
+  /** Origin-wide usage and quota, in bytes, from `navigator.storage.estimate()` when available. */
+  estimate?: { usage?: number; quota?: number };
+};
+
+export type UsageOptions = {
+  /**
+   * (optional) Number of keys listed in `largest`.
+   * @default 5
+   */
+  top?: number;
+};
+
+export type NamespaceOptions = {
+  /**
+   * (optional) Appended to the name to end the namespace's prefix.
+   * @default ":"
+   */
+  separator?: string;
+};
+
+/**
+ * A change to a single key, delivered to subscribers.
+ * @template T - The value type stored at the key.
+ */
+export type StorageChange<T = unknown> = {
+  /** The key without the prefix. */
+  key: string;
+  /** The deserialized value before the change, or `null`. */
+  oldValue: T | null;
+  /** The deserialized value after the change, or `null` when removed. */
+  newValue: T | null;
+  /** `"local"` for writes made through this instance, `"external"` for writes from another tab. */
+  source: "local" | "external";
 };
 
+/**
+ * Listener called with each change to a subscribed key.
+ * @template T - The value type stored at the key.
+ */
+export type StorageListener<T = unknown> = (change: StorageChange<T>) => void;
+
 /**
  * Response object for a defined storage key.
  * @template DefinedType - The value type stored at this key.
@@ -92,10 +513,24 @@ export type AsyncStorageConfig = {
  */
 export type DefineResponse<DefinedType = unknown, SetConfig = unknown> = {
   get<T = DefinedType>(): T | null;
-  set(value: DefinedType, config?: SetConfig): boolean;
+  /** Reads the value like `get`, with its metadata; `null` when there is no valid value. */
+  getWithMeta<T = DefinedType>(): EntryWithMeta<T> | null;
+  set(value: DefinedType, config?: SetConfig, options?: SetOptions): boolean;
   remove(): void;
   /** Retrieves the value from storage and removes it. */
   pop<T = DefinedType>(): T | null;
+  /** Writes the updater's result for the current value, like `set`. */
+  update(
+    updater: (current: DefinedType | null) => DefinedType,
+    config?: SetConfig,
+    options?: SetOptions,
+  ): boolean;
+  /** Listens for changes to this key; returns an unsubscribe function. */
+  subscribe(listener: StorageListener<DefinedType>): () => void;
+  /** Bytes the key and its stored item take, counted like `usage()`; 0 when missing. */
+  size(): number;
+  /** The item stored at the key, as the adapter holds it; `null` when missing. */
+  item(): string | null;
   key: string;
 };
 
@@ -106,13 +541,113 @@ export type DefineResponse<DefinedType = unknown, SetConfig = unknown> = {
  */
 export type AsyncDefineResponse<DefinedType = unknown, SetConfig = unknown> = {
   get<T = DefinedType>(): Promise<T | null>;
-  set(value: DefinedType, config?: SetConfig): Promise<boolean>;
+  /** Reads the value like `get`, with its metadata; `null` when there is no valid value. */
+  getWithMeta<T = DefinedType>(): Promise<EntryWithMeta<T> | null>;
+  set(value: DefinedType, config?: SetConfig, options?: SetOptions): Promise<boolean>;
   remove(): Promise<void>;
   /** Retrieves the value from storage and removes it. */
   pop<T = DefinedType>(): Promise<T | null>;
+  /**
+   * Writes the updater's result for the current value, like `set`. Updates to the same key
+   * run one at a time.
+   */
+  update(
+    updater: (current: DefinedType | null) => DefinedType | Promise<DefinedType>,
+    config?: SetConfig,
+    options?: SetOptions,
+  ): Promise<boolean>;
+  /** Listens for changes to this key; returns an unsubscribe function. */
+  subscribe(listener: StorageListener<DefinedType>): () => void;
+  /** Bytes the key and its stored item take, counted like `usage()`; 0 when missing. */
+  size(): Promise<number>;
+  /** The item stored at the key, as the adapter holds it once pending writes are flushed. */
+  item(): Promise<string | null>;
   key: string;
 };
 
+/**
+ * Result of `defineGroup()`: a defined key per alias, plus batch helpers.
+ * @template TypeMap - The value type stored under each alias.
+ * @template SetConfig - Optional configuration type for the set methods.
+ */
+export type DefineGroupResponse<
+  TypeMap extends Record<string, unknown> = Record<string, unknown>,
+  SetConfig = unknown,
+> =
+  & { [K in keyof TypeMap]: DefineResponse<TypeMap[K], SetConfig> }
+  & {
+    /** Reads every key of the group in one batch. */
+    getAll(): { [K in keyof TypeMap]: TypeMap[K] | null };
+    /** Writes the given members in one batch. */
+    setAll(values: Partial<TypeMap>, config?: SetConfig, options?: SetOptions): boolean;
+  };
+
+/**
+ * Result of `defineGroup()` on AsyncBrowserStorage: a defined key per alias, plus batch helpers.
+ * @template TypeMap - The value type stored under each alias.
+ * @template SetConfig - Optional configuration type for the set methods.
+ */
+export type AsyncDefineGroupResponse<
+  TypeMap extends Record<string, unknown> = Record<string, unknown>,
+  SetConfig = unknown,
+> =
+  & { [K in keyof TypeMap]: AsyncDefineResponse<TypeMap[K], SetConfig> }
+  & {
+    /** Reads every key of the group in one batch. */
+    getAll(): Promise<{ [K in keyof TypeMap]: TypeMap[K] | null }>;
+    /** Writes the given members in one batch. */
+    setAll(values: Partial<TypeMap>, config?: SetConfig, options?: SetOptions): Promise<boolean>;
+  };
+
+type UnionToIntersection<U> = (U extends unknown ? (union: U) => void : never) extends
+  (intersection: infer I) => void ? I : never;
+
+/**
+ * A key template for `defineFamily()` with a `{name}` placeholder for every parameter, such as
+ * `"draft:{id}"` for `{ id: string }`.
+ * @template Params - The parameters that identify a member of the family.
+ */
+export type FamilyTemplate<Params> = UnionToIntersection<
+  { [K in keyof Params & string]: `${string}{${K}}${string}` }[keyof Params & string]
+>;
+
+/**
+ * Result of `defineFamily()`: called with parameters, it returns that member's defined key.
+ * @template Params - The parameters that identify a member of the family.
+ * @template DefinedType - The value type stored at each member.
+ * @template SetConfig - Optional configuration type for the set method.
+ */
+export type DefineFamilyResponse<Params, DefinedType = unknown, SetConfig = unknown> =
+  & ((params: Params) => DefineResponse<DefinedType, SetConfig>)
+  & {
+    template: string;
+    /** Lists the parameters of every stored member. */
+    keys(): Params[];
+    /** Lists `[params, value]` for every stored member with a value. */
+    entries(): [Params, DefinedType][];
+    /** Removes every member of the family, and nothing else. */
+    clearAll(): void;
+  };
+
+/**
+ * Result of `defineFamily()` on AsyncBrowserStorage: called with parameters, it returns that
+ * member's defined key.
+ * @template Params - The parameters that identify a member of the family.
+ * @template DefinedType - The value type stored at each member.
+ * @template SetConfig - Optional configuration type for the set method.
+ */
+export type AsyncDefineFamilyResponse<Params, DefinedType = unknown, SetConfig = unknown> =
+  & ((params: Params) => AsyncDefineResponse<DefinedType, SetConfig>)
+  & {
+    template: string;
+    /** Lists the parameters of every stored member. */
+    keys(): Promise<Params[]>;
+    /** Lists `[params, value]` for every stored member with a value. */
+    entries(): Promise<[Params, DefinedType][]>;
+    /** Removes every member of the family, and nothing else. */
+    clearAll(): Promise<void>;
+  };
+
 /**
  * Abstract base class for browser storage implementations.
  * @template SetConfig - Optional configuration type for the setItem method.
@@ -121,161 +656,1959 @@ export abstract class AbstractBrowserStorage<SetConfig = unknown> {
   abstract adapter: Adapter<SetConfig> | AsyncAdapter<SetConfig>;
   abstract prefix: string;
   abstract serializer: Serializer;
+  abstract onError?: StorageErrorHandler;
+  abstract strict: boolean;
+  abstract metadata: boolean;
 
-  protected toStore(value: unknown): string {
-    return this.serializer.stringify(value ?? null);
-  }
-
-  protected fromStore<T = unknown>(item: unknown): T | null {
-    if (typeof item !== "string") return null;
+  private readonly keyListeners = new Map<string, Set<StorageListener>>();
+  private readonly changeListeners = new Set<StorageListener>();
+  private stopWatching?: () => void;
+  /** Publishes writes to, and receives writes from, other instances when `sync` is set. */
+  protected sync?: SyncChannel;
+  /** Set on a child namespace sharing its parent's sync channel; stops receiving on it. */
+  private leaveSync?: () => void;
+  /** Prefixes of the child namespaces sharing the sync channel, with how many share each. */
+  private readonly syncedPrefixes = new Map<string, number>();
+  /** Names of the namespaces created from this instance, by prefix. */
+  private readonly namespacePrefixes = new Map<string, string>();
 
-    try {
-      return this.serializer.parse(item);
-    } catch {
-      // legacy or foreign value that isn't valid JSON; return it raw
-      return (item as T) ?? null;
-    }
+  /**
+   * Stops publishing and receiving writes on the sync channel. The channel is closed, for the
+   * child namespaces sharing it too, unless this instance is a child namespace itself.
+   */
+  disconnect(): void {
+    if (this.leaveSync) this.leaveSync();
+    else this.sync?.close();
+    this.sync = undefined;
+    this.leaveSync = undefined;
   }
-}
 
-/**
- * Synchronous browser storage class.
- * @template SetConfig - Optional configuration type for the setItem method.
- */
-export class BrowserStorage<SetConfig = unknown> extends AbstractBrowserStorage<SetConfig> {
-  readonly adapter: Adapter<SetConfig>;
-  readonly prefix: string;
-  readonly serializer: Serializer;
+  /**
+   * Has a child namespace share this instance's sync channel. A channel of its own would
+   * receive this instance's writes as external ones.
+   */
+  protected shareSync(
+    child: AbstractBrowserStorage<SetConfig>,
+    apply: (message: SyncMessage) => void,
+  ): void {
+    if (!this.sync) return;
+    const { prefix } = child;
+    const leave = this.sync.join(apply);
+    this.syncedPrefixes.set(prefix, (this.syncedPrefixes.get(prefix) ?? 0) + 1);
+    child.sync = this.sync;
+    child.leaveSync = () => {
+      leave();
+      const count = this.syncedPrefixes.get(prefix)! - 1;
+      if (count) this.syncedPrefixes.set(prefix, count);
+      else this.syncedPrefixes.delete(prefix);
+    };
+  }
 
-  constructor(config: StorageConfig = {}) {
-    super();
-    this.adapter = config.adapter ?? new MemoryStorageAdapter();
-    this.prefix = config.prefix ?? "";
-    this.serializer = config.serializer ?? JSON;
+  /** Whether a child namespace sharing the sync channel applies received writes to the key. */
+  protected syncedByChild(fullKey: string): boolean {
+    for (const prefix of this.syncedPrefixes.keys()) if (fullKey.startsWith(prefix)) return true;
+    return false;
   }
 
-  clear(): void {
-    if (!this.prefix) {
-      this.adapter.clear?.();
-      return;
-    }
-    const { adapter } = this;
-    if (typeof adapter.key !== "function" || typeof adapter.length !== "number") {
-      throw new Error(
-        "clear() with a prefix requires an adapter that implements key(index) and length",
-      );
+  /**
+   * Composes the prefix of a child namespace. Throws a TypeError when the name is empty or holds
+   * the separator, or when the prefix overlaps another namespace's as a plain string prefix,
+   * since clearing one would then clear part of the other.
+   */
+  protected namespacePrefix(name: string, options?: NamespaceOptions): string {
+    const separator = options?.separator ?? ":";
+    if (!separator) throw new TypeError("A namespace separator cannot be empty");
+    if (!name || name.includes(separator)) {
+      throw new TypeError(`Invalid namespace name "${name}" for the separator "${separator}"`);
     }
-    const keys: string[] = [];
-    for (let i = 0; i < adapter.length; i++) {
-      const key = adapter.key(i);
-      if (key !== null && key.startsWith(this.prefix)) keys.push(key);
+    const prefix = this.prefix + name + separator;
+    for (const other of this.namespacePrefixes.keys()) {
+      if (other !== prefix && (other.startsWith(prefix) || prefix.startsWith(other))) {
+        throw new TypeError(`The namespace prefix "${prefix}" overlaps "${other}"`);
+      }
     }
-    for (const key of keys) adapter.removeItem(key);
+    this.namespacePrefixes.set(prefix, name);
+    return prefix;
   }
 
-  pop<T>(key: string): T | null {
-    const item = this.fromStore<T>(this.adapter.getItem(this.prefix + key));
-    this.remove(key);
-    return item;
+  /** Names of the namespaces created from this instance that hold any of the keys. */
+  protected namespaceNames(keys: readonly string[]): string[] {
+    return Array.from(this.namespacePrefixes).flatMap(([prefix, name]) =>
+      keys.some((key) => (this.prefix + key).startsWith(prefix)) ? [name] : []
+    );
   }
 
-  get<T>(key: string): T | null {
-    return this.fromStore<T>(this.adapter.getItem(this.prefix + key));
+  /**
+   * Listens for changes to a single key.
+   * @returns a function that removes the listener
+   */
+  subscribe<T = unknown>(key: string, listener: StorageListener<T>): () => void {
+    let listeners = this.keyListeners.get(key);
+    if (!listeners) this.keyListeners.set(key, listeners = new Set());
+    listeners.add(listener as StorageListener);
+    this.listenerAdded();
+    return () => {
+      if (!listeners.delete(listener as StorageListener)) return;
+      if (listeners.size === 0) this.keyListeners.delete(key);
+      this.listenerRemoved();
+    };
   }
 
-  set(key: string, value?: unknown, config?: SetConfig): boolean {
-    try {
-      this.adapter.setItem(this.prefix + key, this.toStore(value), config);
-      return true;
-    } catch {
-      // setItem failed (quota exceeded, serialization error, etc.)
-    }
-    return false;
+  /**
+   * Listens for changes to any key under the prefix.
+   * @returns a function that removes the listener
+   */
+  onChange(listener: StorageListener): () => void {
+    this.changeListeners.add(listener);
+    this.listenerAdded();
+    return () => {
+      if (!this.changeListeners.delete(listener)) return;
+      this.listenerRemoved();
+    };
   }
 
-  remove(key: string): void {
-    this.adapter.removeItem(this.prefix + key);
+  /** Whether a change to the key would reach any listener. */
+  protected isWatched(key: string): boolean {
+    return this.changeListeners.size > 0 || this.keyListeners.has(key);
   }
 
-  defineGroup<TypeMap extends Record<string, unknown> = Record<string, unknown>>(
-    group: { [K in keyof TypeMap]: string },
-  ): { [K in keyof TypeMap]: DefineResponse<TypeMap[K], SetConfig> } {
-    type Result = { [K in keyof TypeMap]: DefineResponse<TypeMap[K], SetConfig> };
-    return (Object.keys(group) as (keyof TypeMap)[]).reduce((prev, next) => ({
-      ...prev,
-      [next]: this.define(group[next]),
-    }), {} as Result);
+  /** Whether any listener is registered. */
+  protected hasListeners(): boolean {
+    return this.changeListeners.size + this.keyListeners.size > 0;
   }
 
-  define<DefinedType = unknown>(
+  /** Keys with a dedicated listener, without the prefix. */
+  protected subscribedKeys(): string[] {
+    return [...this.keyListeners.keys()];
+  }
+
+  /** Deserializes the raw before/after items of a key and notifies its listeners. */
+  protected emit(
     key: string,
-    defaultConfig?: SetConfig,
-  ): DefineResponse<DefinedType, SetConfig> {
-    return {
-      get: <T = DefinedType>(): T | null => this.get<T>(key),
-      set: (value: DefinedType, config?: SetConfig) =>
-        this.set(key, value, config ?? defaultConfig),
-      remove: () => this.remove(key),
-      pop: <T = DefinedType>(): T | null => this.pop<T>(key),
-      key: this.prefix + key,
+    oldItem: string | null,
+    newItem: string | null,
+    source: StorageChange["source"] = "local",
+  ): void {
+    if (!this.isWatched(key)) return;
+    const change: StorageChange = {
+      key,
+      oldValue: this.liveValue(oldItem, key),
+      newValue: this.liveValue(newItem, key),
+      source,
     };
+    for (const listener of [...this.keyListeners.get(key) ?? [], ...this.changeListeners]) {
+      try {
+        listener(change);
+      } catch (error) {
+        this.listenerFailed(error, key);
+      }
+    }
   }
-}
 
-/**
- * Asynchronous browser storage class with in memory cached storage.
- * @template SetConfig - Optional configuration object for the setItem method.
- */
-export class AsyncBrowserStorage<SetConfig = unknown> extends AbstractBrowserStorage<SetConfig> {
-  readonly adapter: AsyncAdapter<SetConfig>;
-  readonly cachedAdapter: MemoryStorageAdapter = new MemoryStorageAdapter();
-  readonly prefix: string;
-  readonly serializer: Serializer;
+  /**
+   * Reports an error a listener threw to `onError`, or rethrows it asynchronously without one,
+   * so it neither fails the write nor keeps the other listeners from hearing the change.
+   */
+  private listenerFailed(error: unknown, key: string): void {
+    if (!this.onError) {
+      queueMicrotask(() => {
+        throw error;
+      });
+      return;
+    }
+    const storageError = new StorageListenerError(`A change listener for "${key}" threw`, {
+      cause: error,
+    });
+    this.reportError(storageError, { operation: "notify", key });
+  }
 
-  constructor(config: AsyncStorageConfig) {
-    super();
-    this.adapter = config.adapter;
-    this.prefix = config.prefix ?? "";
-    this.serializer = config.serializer ?? JSON;
+  /**
+   * Starts forwarding changes made outside this instance, called when the first listener is added.
+   * @returns a function that stops forwarding, called when the last listener is removed
+   */
+  protected watchExternalChanges(): (() => void) | undefined {
+    return undefined;
   }
 
-  async syncCache(): Promise<void> {
-    for (const [key, value] of this.cachedAdapter.entries()) {
-      await this.adapter.setItem(key, value);
+  private listenerAdded(): void {
+    if (!this.stopWatching) {
+      this.stopWatching = this.watchExternalChanges();
     }
   }
 
-  getCache(key: string): string | null {
-    return this.cachedAdapter.getItem(key);
+  private listenerRemoved(): void {
+    if (this.hasListeners()) return;
+    this.stopWatching?.();
+    this.stopWatching = undefined;
   }
 
-  setCache(key: string, value?: string): void {
-    if (value) this.cachedAdapter.setItem(key, value);
+  private liveValue(item: string | null, key: string): unknown {
+    const entry = this.decode(item, key);
+    return entry && !isExpired(entry) ? entry.value : null;
   }
 
-  removeCache(key: string): void {
-    this.cachedAdapter.removeItem(key);
+  /** Passes an error to the `onError` hook. */
+  protected reportError(error: StorageError, context: StorageErrorContext): void {
+    this.onError?.(error, context);
   }
 
-  async clear(): Promise<void> {
-    if (!this.prefix) {
-      await this.adapter.clear?.();
-      return;
-    }
-    const { adapter } = this;
-    if (typeof adapter.keys !== "function") {
-      throw new Error(
-        "clear() with a prefix requires an adapter that implements keys()",
-      );
-    }
-    const keys = await adapter.keys();
+  /**
+   * Reports a failed write, then throws it in strict mode.
+   * @returns `false`, for the write to return
+   */
+  protected writeFailed(error: unknown, context: StorageErrorContext): false {
+    const storageError = toWriteError(error, context.key);
+    this.reportError(storageError, context);
+    if (this.strict) throw storageError;
+    return false;
+  }
+
+  /** Reports a failed transaction, then throws it in strict mode. */
+  protected rolledBack(error: unknown, keys: string[], unrestored: string[]): TransactionResult {
+    const storageError = toWriteError(error);
+    this.reportError(storageError, { operation: "transaction" });
+    if (this.strict) throw storageError;
+    return { status: "rolled-back", keys, error: storageError, unrestored };
+  }
+
+  /**
+   * Serializes a transaction's staged operations into raw items by full key.
+   * @param items - the current items by full key, updated as operations replace them
+   */
+  protected prepareTransaction(
+    staged: StagedOperation<SetConfig>[],
+    items: Map<string, string | null>,
+  ): CommitOperation<SetConfig>[] {
+    return staged.map((operation) => {
+      const key = this.prefix + operation.key;
+      if (operation.type === "remove") {
+        items.set(key, null);
+        return { key, item: null };
+      }
+      const { value, config, options } = operation;
+      const replaced = this.replacedEntry(items.get(key) ?? null);
+      const item = this.serialize(operation.key, value, options, replaced);
+      items.set(key, item);
+      return { key, item, config };
+    });
+  }
+
+  /** Serializes a value for the key, raising a StorageSerializationError on failure. */
+  protected serialize(
+    key: string,
+    value: unknown,
+    options?: SetOptions,
+    replaced?: StoredEntry | null,
+  ): string {
+    try {
+      return this.toStore(value, options, replaced);
+    } catch (error) {
+      throw new StorageSerializationError(`Failed to serialize the value for "${key}"`, {
+        cause: error,
+      });
+    }
+  }
+
+  /** Unpacks a stored item, reporting values that fail to parse. */
+  protected decode(item: unknown, key?: string): StoredEntry | null {
+    if (typeof item === "string" && item.startsWith(LZ_MARKER)) {
+      try {
+        item = lzDecompress(item.slice(LZ_MARKER.length));
+      } catch (error) {
+        this.reportCorruption(error, key);
+        return null;
+      }
+    }
+    return unpack(this.serializer, item, (error) =>
+      this.reportError(
+        new StorageParseError(`Failed to parse the stored value for "${key}"`, { cause: error }),
+        { operation: "get", key },
+      ));
+  }
+
+  /** Reports a compressed value that cannot be decompressed; it reads as missing. */
+  protected reportCorruption(error: unknown, key?: string): void {
+    this.reportError(
+      new StorageParseError(`Failed to decompress the stored value for "${key}"`, {
+        cause: error,
+      }),
+      { operation: "get", key },
+    );
+  }
+
+  /** Serializes a value, wrapped with its metadata when it has any. */
+  protected toStore(value: unknown, options?: SetOptions, replaced?: StoredEntry | null): string {
+    const expiresAt = resolveExpiry(options);
+    const version = options?.version;
+    const tags = options?.tags;
+    const pinned = options?.pinned === true;
+    const priority = options?.priority;
+    // a value holding the marker itself is wrapped too, or it would read back as an envelope
+    const plain = expiresAt === undefined && version === undefined && !tags && !pinned &&
+      priority === undefined && !this.metadata && !hasEnvelopeMarker(value);
+    if (plain) {
+      // JSON has no undefined; serializers that do keep it
+      return this.serializer.stringify(value) ?? this.serializer.stringify(null);
+    }
+    const envelope: Envelope = { [ENVELOPE_MARKER]: 1, value };
+    if (expiresAt !== undefined) envelope.expiresAt = expiresAt;
+    if (version !== undefined) envelope.version = version;
+    if (tags) envelope.tags = tags;
+    if (pinned) envelope.pinned = true;
+    if (priority !== undefined) envelope.priority = priority;
+    if (this.metadata) {
+      const now = Date.now();
+      envelope.createdAt = replaced?.createdAt ?? now;
+      envelope.updatedAt = now;
+      envelope.writes = replaced?.createdAt === undefined ? 1 : (replaced.writes ?? 0) + 1;
+    }
+    return this.serializer.stringify(envelope);
+  }
+
+  /** The entry a write replaces, read for its metadata when `metadata` is on. */
+  protected replacedEntry(item: string | null): StoredEntry | null {
+    return this.metadata ? this.peekEntry(item) : null;
+  }
+
+  /** Decodes a raw item without reporting errors; an unreadable item reads as missing. */
+  protected peekEntry(item: string | null): StoredEntry | null {
+    if (item === null) return null;
+    try {
+      return unpack(
+        this.serializer,
+        item.startsWith(LZ_MARKER) ? lzDecompress(item.slice(LZ_MARKER.length)) : item,
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  protected fromStore<T = unknown>(item: unknown, key?: string): T | null {
+    return storedValue(this.decode(item, key)) as T | null;
+  }
+}
+
+/** Marker property identifying a value wrapped together with storage metadata. */
+export const ENVELOPE_MARKER = "__bs";
+
+type StoredEntry = EntryMetadata & { value: unknown };
+
+type Envelope = StoredEntry & { [ENVELOPE_MARKER]: 1 };
+
+function isEnvelope(value: unknown): value is Envelope {
+  return typeof value === "object" && value !== null &&
+    (value as Record<string, unknown>)[ENVELOPE_MARKER] === 1;
+}
+
+function hasEnvelopeMarker(value: unknown): boolean {
+  return typeof value === "object" && value !== null && Object.hasOwn(value, ENVELOPE_MARKER);
+}
+
+function resolveExpiry(options?: SetOptions): number | undefined {
+  if (options?.expiresAt !== undefined) return Number(options.expiresAt);
+  if (options?.ttl !== undefined) return Date.now() + options.ttl;
+  return undefined;
+}
+
+function withMeta<T>(entry: StoredEntry): EntryWithMeta<T> {
+  const { value, ...meta } = entry;
+  return { value: value as T, meta };
+}
+
+function matchesFilter(entry: StoredEntry, filter: MetadataFilter, now: number): boolean {
+  const { olderThan, newerThan, tags } = filter;
+  if (olderThan !== undefined || newerThan !== undefined) {
+    if (entry.updatedAt === undefined) return false;
+    const age = now - entry.updatedAt;
+    if (olderThan !== undefined && age < olderThan) return false;
+    if (newerThan !== undefined && age >= newerThan) return false;
+  }
+  return !tags || tags.every((tag) => entry.tags?.includes(tag));
+}
+
+/** The value of an entry, or `null` when there is none; an `undefined` value is kept. */
+function storedValue(entry: StoredEntry | null | undefined): unknown {
+  return entry ? entry.value : null;
+}
+
+function isExpired(entry: StoredEntry): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+}
+
+function unpack(
+  serializer: Serializer,
+  item: unknown,
+  onParseError?: (error: unknown) => void,
+): StoredEntry | null {
+  if (typeof item !== "string") return null;
+
+  let parsed: unknown;
+  try {
+    parsed = serializer.parse(item);
+  } catch (error) {
+    // legacy or foreign value that isn't valid JSON; return it raw
+    onParseError?.(error);
+    return { value: item };
+  }
+  if (isEnvelope(parsed)) {
+    const { [ENVELOPE_MARKER]: _marker, ...entry } = parsed;
+    // JSON drops an undefined value from the envelope
+    return Object.hasOwn(entry, "value") ? entry : { ...entry, value: null };
+  }
+  return { value: parsed };
+}
+
+function isQuotaError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const { code } = error as { code?: number };
+  return error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED" ||
+    code === 22 || code === 1014;
+}
+
+/** Wraps an error thrown while writing in the matching StorageError. */
+function toWriteError(error: unknown, key?: string): StorageError {
+  if (error instanceof StorageError) return error;
+  const target = key === undefined ? "" : ` "${key}"`;
+  if (isQuotaError(error)) {
+    return new StorageQuotaError(`Storage quota exceeded while writing${target}`, { cause: error });
+  }
+  return new StorageAdapterError(`The adapter failed while writing${target}`, { cause: error });
+}
+
+/** Returns a Transaction along with the operations it stages, in order. */
+function transactionRecorder<SetConfig>(): [Transaction<SetConfig>, StagedOperation<SetConfig>[]] {
+  const staged: StagedOperation<SetConfig>[] = [];
+  const transaction: Transaction<SetConfig> = {
+    set(key, value, config, options) {
+      staged.push({ type: "set", key, value, config, options });
+    },
+    remove(key) {
+      staged.push({ type: "remove", key });
+    },
+  };
+  return [transaction, staged];
+}
+
+/** The last item each key gets from a transaction's operations, by full key. */
+function finalItems(operations: CommitOperation<unknown>[]): Map<string, string | null> {
+  return new Map(operations.map(({ key, item }) => [key, item]));
+}
+
+/** Marker prefixing items BrowserStorage compressed; serializers never produce a leading NUL. */
+export const LZ_MARKER = "\u0000lz:";
+/** Marker prefixing items AsyncBrowserStorage compressed with deflate. */
+export const DEFLATE_MARKER = "\u0000df:";
+
+/** The length from which values are compressed, or `undefined` when compression is off. */
+function compressionThreshold(
+  compression: boolean | CompressionOptions | undefined,
+): number | undefined {
+  if (!compression) return undefined;
+  return (compression === true ? undefined : compression.threshold) ?? 1024;
+}
+
+/** Writes bits into characters of 15 bits each, offset past the control characters. */
+class BitWriter {
+  private readonly chars: string[] = [];
+  private buffer = 0;
+  private size = 0;
+
+  write(value: number, bits: number): void {
+    for (let i = 0; i < bits; i++) {
+      this.buffer = (this.buffer << 1) | ((value >> i) & 1);
+      if (++this.size === 15) {
+        this.chars.push(String.fromCharCode(this.buffer + 32));
+        this.buffer = 0;
+        this.size = 0;
+      }
+    }
+  }
+
+  toString(): string {
+    if (this.size) {
+      this.chars.push(String.fromCharCode((this.buffer << (15 - this.size)) + 32));
+      this.buffer = 0;
+      this.size = 0;
+    }
+    return this.chars.join("");
+  }
+}
+
+class BitReader {
+  private index = 0;
+  private bit = 0;
+
+  constructor(private readonly text: string) {}
+
+  read(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      const char = this.text.charCodeAt(this.index) - 32;
+      if (!(char >= 0 && char < 1 << 15)) throw new RangeError("Malformed compressed data");
+      value |= ((char >> (14 - this.bit)) & 1) << i;
+      if (++this.bit === 15) {
+        this.bit = 0;
+        this.index++;
+      }
+    }
+    return value;
+  }
+}
+
+/** Bits needed to write any code below `size`. */
+function codeWidth(size: number): number {
+  return 32 - Math.clz32(size - 1);
+}
+
+/**
+ * LZW with a growing code width, in the style of lz-string. Code 0 ends the stream and code 1
+ * introduces a 16-bit literal; the output is valid UTF-16, so it fits in localStorage.
+ */
+function lzCompress(input: string): string {
+  const writer = new BitWriter();
+  const dictionary = new Map<string, number>();
+  let size = 2;
+  let word = "";
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    const extended = word + char;
+    if (dictionary.has(extended)) {
+      word = extended;
+      continue;
+    }
+    if (word) {
+      writer.write(dictionary.get(word)!, codeWidth(size));
+      dictionary.set(extended, size++);
+    }
+    if (dictionary.has(char)) {
+      word = char;
+      continue;
+    }
+    writer.write(1, codeWidth(size));
+    writer.write(char.charCodeAt(0), 16);
+    dictionary.set(char, size++);
+    word = "";
+  }
+  if (word) {
+    writer.write(dictionary.get(word)!, codeWidth(size));
+    // the decoder reserves a code after every dictionary code, this last one included
+    size++;
+  }
+  writer.write(0, codeWidth(size));
+  return writer.toString();
+}
+
+function lzDecompress(input: string): string {
+  const reader = new BitReader(input);
+  const entries: string[] = [];
+  let size = 2;
+  // the last decoded word, whose extension by the next word's first character takes code size - 1
+  let previous: string | undefined;
+  let output = "";
+  for (;;) {
+    const code = reader.read(codeWidth(size));
+    if (code === 0) return output;
+    let entry: string;
+    if (code === 1) {
+      entry = String.fromCharCode(reader.read(16));
+      if (previous !== undefined) entries[size - 1] = previous + entry;
+      entries[size++] = entry;
+      previous = undefined;
+    } else {
+      entry = previous !== undefined && code === size - 1 ? previous + previous[0] : entries[code];
+      if (entry === undefined) throw new RangeError("Malformed compressed data");
+      if (previous !== undefined) entries[size - 1] = previous + entry[0];
+      size++;
+      previous = entry;
+    }
+    output += entry;
+  }
+}
+
+/** Deflates text with CompressionStream, packed into UTF-16 like lzCompress output. */
+async function deflate(input: string): Promise<string> {
+  const stream = new Blob([input]).stream().pipeThrough(new CompressionStream("deflate"));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  const writer = new BitWriter();
+  writer.write(bytes.length, 30);
+  for (const byte of bytes) writer.write(byte, 8);
+  return writer.toString();
+}
+
+async function inflate(input: string): Promise<string> {
+  const reader = new BitReader(input);
+  const bytes = new Uint8Array(reader.read(30));
+  for (let i = 0; i < bytes.length; i++) bytes[i] = reader.read(8);
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return await new Response(stream).text();
+}
+
+/** Compresses an item at or above the threshold, unless compression would not make it smaller. */
+function compressItem(item: string, threshold: number | undefined): string {
+  if (threshold === undefined || item.length < threshold) return item;
+  const compressed = LZ_MARKER + lzCompress(item);
+  return compressed.length < item.length ? compressed : item;
+}
+
+/** Define options that apply to every write through the key, even when `set` is given options. */
+function stickyOptions(options?: DefineOptions<unknown>): SetOptions {
+  const sticky: SetOptions = {};
+  if (options?.version !== undefined) sticky.version = options.version;
+  if (options?.priority !== undefined) sticky.priority = options.priority;
+  if (options?.pinned !== undefined) sticky.pinned = options.pinned;
+  if (options?.tags !== undefined) sticky.tags = options.tags;
+  return sticky;
+}
+
+/** Reserved key, under the prefix, holding the eviction index. */
+const EVICTION_INDEX_KEY = "__bs_eviction__";
+
+/**
+ * Whether a key, without the prefix, is reserved for the library's bookkeeping (`__bs_*__`),
+ * its own or a child namespace's.
+ */
+function isReservedKey(key: string): boolean {
+  return /__bs_\w+__$/.test(key);
+}
+
+type EvictionEntry = { accessedAt: number; priority?: number; pinned?: boolean };
+
+/**
+ * Last access time, priority and pinning per key, persisted as JSON under a reserved key. Reads
+ * only note their access time in memory; it is saved with the next write. The index is read
+ * again before every change and ranking, since other instances on the adapter save it too.
+ */
+class EvictionIndex {
+  /** Access times not saved yet, by key. */
+  private readonly accessed = new Map<string, number>();
+  // strictly increasing, so accesses within the same millisecond keep their order
+  private clock = 0;
+
+  constructor(private readonly adapter: Adapter, private readonly key: string) {}
+
+  /** Notes a read. */
+  access(key: string): void {
+    this.accessed.set(key, this.tick());
+  }
+
+  /** Records a write with its priority and pinning, saving the reads noted since. */
+  touch(key: string, options?: SetOptions): void {
+    const entries = this.load();
+    const entry: EvictionEntry = { ...entries[key], accessedAt: this.tick() };
+    if (options?.priority !== undefined) entry.priority = options.priority;
+    if (options?.pinned !== undefined) entry.pinned = options.pinned;
+    entries[key] = entry;
+    this.save(entries);
+  }
+
+  forget(keys: readonly string[]): void {
+    const entries = this.load();
     for (const key of keys) {
-      if (key.startsWith(this.prefix)) await adapter.removeItem(key);
+      delete entries[key];
+      this.accessed.delete(key);
+    }
+    this.save(entries);
+  }
+
+  reset(): void {
+    this.accessed.clear();
+  }
+
+  /**
+   * Orders the keys that may be evicted, first to evict first.
+   * @param stored - the entry stored at a key, whose pin holds whatever the index says and whose
+   * priority stands in when the index has none
+   */
+  candidates(
+    keys: readonly string[],
+    policy: EvictionPolicy,
+    stored: (key: string) => StoredEntry | null,
+  ): string[] {
+    const entries = this.load();
+    const ranks = new Map(keys.map((key) => {
+      const entry = stored(key);
+      // keys written outside this storage have no entry and go first
+      const rank: EvictionEntry = { ...entries[key] ?? { accessedAt: 0 } };
+      rank.priority ??= entry?.priority;
+      rank.pinned ||= entry?.pinned;
+      return [key, rank];
+    }));
+    const rank = (key: string) => ranks.get(key)!;
+    return keys.filter((key) => !rank(key).pinned).sort((a, b) =>
+      (policy === "priority" ? (rank(a).priority ?? 0) - (rank(b).priority ?? 0) : 0) ||
+      rank(a).accessedAt - rank(b).accessedAt
+    );
+  }
+
+  private tick(): number {
+    return this.clock = Math.max(Date.now(), this.clock + 1);
+  }
+
+  /** Reads the saved index, with the reads noted since merged in. */
+  private load(): Record<string, EvictionEntry> {
+    let entries: Record<string, EvictionEntry>;
+    try {
+      entries = JSON.parse(this.adapter.getItem(this.key) ?? "{}") ?? {};
+    } catch {
+      entries = {};
+    }
+    for (const [key, accessedAt] of this.accessed) {
+      const entry = entries[key];
+      entries[key] = { ...entry, accessedAt: Math.max(entry?.accessedAt ?? 0, accessedAt) };
+    }
+    return entries;
+  }
+
+  private save(entries: Record<string, EvictionEntry>): void {
+    try {
+      this.adapter.setItem(this.key, JSON.stringify(entries));
+      this.accessed.clear();
+    } catch {
+      // best effort; a full store must not fail the operation that touched the index
+    }
+  }
+}
+
+/** A write published on a sync channel, by full key. */
+type SyncChange =
+  | { type: "set"; key: string; item: string }
+  | { type: "remove"; key: string }
+  | { type: "clear" };
+
+/** When a write happened and which instance made it. */
+type SyncStamp = { origin: string; time: number };
+
+type SyncMessage = SyncChange & SyncStamp;
+
+/** Whether `a` was written after `b`; the instance origin breaks ties. */
+function isLater(a: SyncStamp, b: SyncStamp | undefined): boolean {
+  return !b || a.time > b.time || (a.time === b.time && a.origin > b.origin);
+}
+
+/**
+ * Writes shared with other instances over a BroadcastChannel. Received writes older than the
+ * last write to the same key are dropped, so the last writer wins.
+ */
+class SyncChannel {
+  private readonly origin = crypto.randomUUID();
+  private readonly channel: BroadcastChannel;
+  /** The instance that opened the channel and the child namespaces sharing it. */
+  private readonly receivers = new Set<(message: SyncMessage) => void>();
+  private closed = false;
+  /** Latest write per full key, local or received. */
+  private readonly stamps = new Map<string, SyncStamp>();
+  private cleared?: SyncStamp;
+  // never behind a received write, so local writes are stamped after everything seen
+  private clock = 0;
+
+  private constructor(name: string) {
+    this.channel = new BroadcastChannel(name);
+    this.channel.onmessage = (event: MessageEvent) => this.receive(event.data);
+  }
+
+  /** Opens the channel, or returns undefined where BroadcastChannel is unavailable. */
+  static open(name: string, apply: (message: SyncMessage) => void): SyncChannel | undefined {
+    if (typeof BroadcastChannel !== "function") return undefined;
+    const channel = new SyncChannel(name);
+    channel.join(apply);
+    return channel;
+  }
+
+  /**
+   * Adds a receiver of the writes from other instances.
+   * @returns a function that removes it
+   */
+  join(apply: (message: SyncMessage) => void): () => void {
+    this.receivers.add(apply);
+    return () => this.receivers.delete(apply);
+  }
+
+  publish(change: SyncChange): void {
+    if (this.closed) return;
+    const stamp = { origin: this.origin, time: this.clock = Math.max(Date.now(), this.clock + 1) };
+    this.record(change, stamp);
+    this.channel.postMessage({ ...change, ...stamp });
+  }
+
+  /** Whether the key was written after the given write. */
+  writtenAfter(key: string, stamp: SyncStamp): boolean {
+    const latest = this.stamps.get(key);
+    return latest !== undefined && isLater(latest, stamp);
+  }
+
+  close(): void {
+    this.closed = true;
+    this.receivers.clear();
+    this.channel.close();
+  }
+
+  private receive(data: unknown): void {
+    const message = data as SyncMessage;
+    if (typeof message?.time !== "number" || message.origin === this.origin) return;
+    this.clock = Math.max(this.clock, message.time);
+    if (!isLater(message, this.cleared)) return;
+    if (message.type !== "clear" && !isLater(message, this.stamps.get(message.key))) return;
+    this.record(message, { origin: message.origin, time: message.time });
+    for (const apply of [...this.receivers]) apply(message);
+  }
+
+  private record(change: SyncChange, stamp: SyncStamp): void {
+    if (change.type !== "clear") {
+      this.stamps.set(change.key, stamp);
+      return;
+    }
+    this.cleared = stamp;
+    for (const [key, latest] of this.stamps) if (!isLater(latest, stamp)) this.stamps.delete(key);
+  }
+}
+
+/** Builds the keys of a `defineFamily()` template and parses them back into parameters. */
+class KeyTemplate {
+  private readonly names: string[] = [];
+  private readonly pattern: RegExp;
+
+  constructor(private readonly template: string) {
+    let source = "";
+    let end = 0;
+    for (const match of template.matchAll(/\{([^{}]+)\}/g)) {
+      const before = template.slice(end, match.index);
+      end = match.index + match[0].length;
+      // a value never holds the separators around its placeholder, so "draft:{id}" cannot
+      // capture "1:meta" from a member of "draft:{id}:meta"
+      const separators = before.slice(-1) + template.slice(end).split("{")[0].slice(0, 1);
+      const value = separators ? `([^${separators.replace(/[\\\]^-]/g, "\\$&")}]+)` : "(.+?)";
+      source += escapeRegExp(before) + value;
+      this.names.push(match[1]);
+    }
+    if (!this.names.length) {
+      throw new TypeError(`The key template "${template}" has no {placeholder}`);
+    }
+    this.pattern = new RegExp(`^${source}${escapeRegExp(template.slice(end))}$`);
+  }
+
+  /** Throws a TypeError for a missing or empty value, or one that makes the key ambiguous. */
+  format(params: Record<string, string>): string {
+    const key = this.template.replace(/\{([^{}]+)\}/g, (_, name: string) => {
+      const value = params[name];
+      if (typeof value !== "string" || !value) {
+        throw new TypeError(
+          `Missing the "${name}" parameter for the key template "${this.template}"`,
+        );
+      }
+      return value;
+    });
+    const parsed = this.parse(key);
+    if (!parsed || this.names.some((name) => parsed[name] !== params[name])) {
+      throw new TypeError(`The parameters make "${key}" ambiguous for "${this.template}"`);
+    }
+    return key;
+  }
+
+  parse(key: string): Record<string, string> | null {
+    const match = this.pattern.exec(key);
+    if (!match) return null;
+    return Object.fromEntries(this.names.map((name, index) => [name, match[index + 1]]));
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Bytes a key and item take in Web Storage, which stores them as UTF-16. */
+function utf16Bytes(key: string, item: string | null): number {
+  return item === null ? 0 : (key.length + item.length) * 2;
+}
+
+const utf8 = new TextEncoder();
+
+/** Bytes a key and item take encoded as UTF-8, as most asynchronous stores keep strings. */
+function utf8Bytes(key: string, item: string | null): number {
+  return item === null ? 0 : utf8.encode(key).length + utf8.encode(item).length;
+}
+
+/** Sorts the keys by size and adds the origin-wide estimate, when the browser provides one. */
+async function summarizeUsage(keys: KeyUsage[], options?: UsageOptions): Promise<StorageUsage> {
+  keys.sort((a, b) => b.bytes - a.bytes);
+  const usage: StorageUsage = {
+    bytes: keys.reduce((total, { bytes }) => total + bytes, 0),
+    keys,
+    largest: keys.slice(0, options?.top ?? 5),
+  };
+  const { storage } = (globalThis.navigator ?? {}) as {
+    storage?: { estimate?(): Promise<{ usage?: number; quota?: number }> };
+  };
+  if (typeof storage?.estimate === "function") {
+    try {
+      const { usage: used, quota } = await storage.estimate();
+      usage.estimate = { usage: used, quota };
+    } catch {
+      // the estimate is a best-effort addition
+    }
+  }
+  return usage;
+}
+
+/** Options that rewrite an entry with the expiry and version it already has. */
+function retained(entry: StoredEntry | null): SetOptions | undefined {
+  return entry
+    ? {
+      expiresAt: entry.expiresAt,
+      version: entry.version,
+      tags: entry.tags,
+      pinned: entry.pinned,
+      priority: entry.priority,
+    }
+    : undefined;
+}
+
+/** Compares two values by their serialized form. */
+function sameValue(serializer: Serializer, a: unknown, b: unknown): boolean {
+  try {
+    return serializer.stringify(a ?? null) === serializer.stringify(b ?? null);
+  } catch {
+    return false;
+  }
+}
+
+function takeSnapshot(
+  prefix: string,
+  format: "values" | "raw",
+  keys: readonly string[],
+  items: (string | StoredEntry | null)[],
+): StorageSnapshot {
+  const entries: Record<string, string | SnapshotEntry> = {};
+  items.forEach((item, index) => {
+    if (item !== null) entries[keys[index]] = item;
+  });
+  return { version: 1, prefix, createdAt: Date.now(), format, entries } as StorageSnapshot;
+}
+
+/** Works out what importing a snapshot over the existing keys does. */
+function planImport(
+  snapshot: StorageSnapshot,
+  existing: readonly string[],
+  strategy: ImportStrategy = "merge",
+): { result: ImportResult; writes: string[] } {
+  if (
+    snapshot?.version !== 1 || (snapshot.format !== "values" && snapshot.format !== "raw") ||
+    typeof snapshot.entries !== "object" || snapshot.entries === null
+  ) {
+    throw new TypeError("Unsupported storage snapshot");
+  }
+  const present = new Set(existing);
+  const result: ImportResult = { added: [], overwritten: [], skipped: [], removed: [] };
+  const writes: string[] = [];
+  for (const [key, entry] of Object.entries(snapshot.entries)) {
+    const exists = present.has(key);
+    const expired = snapshot.format === "values" && isExpired(entry as SnapshotEntry);
+    if (expired || (exists && strategy === "skip-existing")) {
+      result.skipped.push(key);
+      continue;
+    }
+    (exists ? result.overwritten : result.added).push(key);
+    writes.push(key);
+  }
+  if (strategy === "replace") {
+    const written = new Set(writes);
+    result.removed = existing.filter((key) => !written.has(key));
+  }
+  return { result, writes };
+}
+
+/** Prefix for Web Locks names, so they don't collide with locks held by other libraries. */
+const LOCK_PREFIX = "@jmondi/browser-storage:";
+
+type LockManager = { request<T>(name: string, callback: () => Promise<T>): Promise<T> };
+
+/** Runs the migration steps between the stored version and the defined one. */
+function migrate(
+  entry: StoredEntry,
+  options: DefineOptions<unknown>,
+): { value: unknown; changed: boolean } {
+  const target = options.version;
+  const stored = entry.version ?? 0;
+  // a value from a newer version of the app is left alone
+  if (target === undefined || stored >= target) return { value: entry.value, changed: false };
+  let value = entry.value;
+  for (let version = stored + 1; version <= target; version++) {
+    // each step takes what the previous one returned, which only the app can type
+    const step = options.migrations?.[version] as ((value: unknown) => unknown) | undefined;
+    if (step) value = step(value);
+  }
+  return { value, changed: true };
+}
+
+function runValidator<T>(
+  validator: Validator<T>,
+  value: unknown,
+): StandardSchemaResult<T> | Promise<StandardSchemaResult<T>> {
+  if (typeof validator === "function") {
+    return validator(value) ? { value } : { issues: [{ message: "Value failed validation" }] };
+  }
+  return validator["~standard"].validate(value);
+}
+
+/**
+ * Turns a validation result into the value a defined key returns,
+ * reporting invalid values through `onInvalid`.
+ */
+function settleValidation<T>(
+  key: string,
+  value: unknown,
+  result: StandardSchemaResult<T>,
+  options: DefineOptions<T>,
+): { value: T | null; invalid: boolean } {
+  if (!result.issues) return { value: result.value, invalid: false };
+  options.onInvalid?.({ key, value, issues: result.issues });
+  return { value: options.defaultValue ?? null, invalid: true };
+}
+
+/**
+ * Synchronous browser storage class.
+ * @template SetConfig - Optional configuration type for the setItem method.
+ */
+export class BrowserStorage<SetConfig = unknown> extends AbstractBrowserStorage<SetConfig> {
+  readonly adapter: Adapter<SetConfig>;
+  readonly prefix: string;
+  readonly serializer: Serializer;
+  readonly onError?: StorageErrorHandler;
+  readonly strict: boolean;
+  readonly metadata: boolean;
+  readonly eviction?: EvictionPolicy;
+  private readonly evictionIndex?: EvictionIndex;
+  private readonly compressionThreshold?: number;
+  private readonly config: StorageConfig;
+
+  constructor(config: StorageConfig = {}) {
+    super();
+    this.config = config;
+    this.adapter = config.adapter ?? new MemoryStorageAdapter();
+    this.prefix = config.prefix ?? "";
+    this.serializer = config.serializer ?? JSON;
+    this.onError = config.onError;
+    this.strict = config.strict ?? false;
+    this.metadata = config.metadata ?? false;
+    this.eviction = config.eviction;
+    if (this.eviction) {
+      this.evictionIndex = new EvictionIndex(this.adapter, this.prefix + EVICTION_INDEX_KEY);
+    }
+    this.compressionThreshold = compressionThreshold(config.compression);
+    if (config.sync) {
+      this.sync = SyncChannel.open(config.sync, (message) => this.applySync(message));
+    }
+  }
+
+  protected override serialize(
+    key: string,
+    value: unknown,
+    options?: SetOptions,
+    replaced?: StoredEntry | null,
+  ): string {
+    return compressItem(super.serialize(key, value, options, replaced), this.compressionThreshold);
+  }
+
+  clear(): void {
+    if (!this.prefix) {
+      const previous = this.clearedKeys().map((key) => [key, this.adapter.getItem(key)] as const);
+      this.evictionIndex?.reset();
+      this.adapter.clear?.();
+      this.sync?.publish({ type: "clear" });
+      for (const [key, item] of previous) if (item !== null) this.emit(key, item, null);
+      return;
+    }
+    for (const key of this.prefixedKeys("clear() with a prefix")) {
+      this.remove(key.slice(this.prefix.length));
+    }
+  }
+
+  /**
+   * Removes every expired entry under the prefix.
+   * @returns the number of entries removed
+   */
+  purgeExpired(): number {
+    let purged = 0;
+    for (const key of this.prefixedKeys("purgeExpired()")) {
+      const entry = this.decode(this.adapter.getItem(key), key.slice(this.prefix.length));
+      if (entry && isExpired(entry)) {
+        this.adapter.removeItem(key);
+        this.sync?.publish({ type: "remove", key });
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  /**
+   * Lists the keys under the prefix, without the prefix. Expired entries that have not been
+   * read or purged yet are included.
+   */
+  keys(): string[] {
+    return this.prefixedKeys("keys()").map((key) => key.slice(this.prefix.length));
+  }
+
+  /**
+   * A child storage for the namespace `name`, sharing this storage's adapter and settings under
+   * the prefix `<prefix><name><separator>`. Its `clear()` only touches its own keys.
+   */
+  namespace(name: string, options?: NamespaceOptions): BrowserStorage<SetConfig> {
+    const { sync: _sync, ...config } = this.config;
+    const child = new BrowserStorage<SetConfig>({
+      ...config,
+      adapter: this.adapter,
+      prefix: this.namespacePrefix(name, options),
+    });
+    this.shareSync(child, (message) => child.applySync(message));
+    return child;
+  }
+
+  /**
+   * Lists the names of the namespaces created from this storage that hold keys, in the order
+   * they were created. Keys are not parsed, so other keys holding the separator are not listed.
+   */
+  namespaces(): string[] {
+    return this.namespaceNames(this.keys());
+  }
+
+  /** Lists the deserialized values under the prefix, skipping expired entries. */
+  values<T = unknown>(): T[] {
+    return this.entries<T>().map(([, value]) => value);
+  }
+
+  /** Lists `[key, value]` pairs under the prefix, without the prefix, skipping expired entries. */
+  entries<T = unknown>(): [string, T][] {
+    const entries: [string, T][] = [];
+    for (const key of this.keys()) {
+      const entry = this.readEntry(key);
+      if (entry) entries.push([key, entry.value as T]);
+    }
+    return entries;
+  }
+
+  /** Entries under the prefix with their metadata, narrowed by the filter. */
+  entriesWithMeta<T = unknown>(filter: MetadataFilter = {}): [string, EntryWithMeta<T>][] {
+    const now = Date.now();
+    const entries: [string, EntryWithMeta<T>][] = [];
+    for (const key of this.keys()) {
+      const entry = this.readEntry(key);
+      if (entry && matchesFilter(entry, filter, now)) entries.push([key, withMeta<T>(entry)]);
+    }
+    return entries;
+  }
+
+  /** Whether a live (unexpired) value is stored at the key. */
+  has(key: string): boolean {
+    return this.readEntry(key) !== null;
+  }
+
+  /** Number of keys under the prefix, counted like `keys()`. */
+  size(): number {
+    return this.keys().length;
+  }
+
+  /**
+   * Measures the bytes each key under the prefix takes, as UTF-16 like Web Storage counts them.
+   * Asynchronous only for the origin-wide `navigator.storage.estimate()`.
+   */
+  usage(options?: UsageOptions): Promise<StorageUsage> {
+    const keys = this.prefixedKeys("usage()").map((key) => ({
+      key: key.slice(this.prefix.length),
+      bytes: utf16Bytes(key, this.adapter.getItem(key)),
+    }));
+    return summarizeUsage(keys, options);
+  }
+
+  [Symbol.iterator](): IterableIterator<[string, unknown]> {
+    return this.entries()[Symbol.iterator]();
+  }
+
+  /** Captures every entry under the prefix, keyed without the prefix. */
+  exportSnapshot(options?: ExportOptions): StorageSnapshot {
+    const keys = this.keys();
+    return options?.format === "raw"
+      ? takeSnapshot(this.prefix, "raw", keys, this.readItems(keys))
+      : takeSnapshot(this.prefix, "values", keys, this.readEntries(keys));
+  }
+
+  /**
+   * Restores a snapshot under this storage's prefix. Write failures are reported like `set()`.
+   * @returns the keys added, overwritten, skipped and removed (or that would be, on a dry run)
+   */
+  importSnapshot(snapshot: StorageSnapshot, options?: ImportOptions): ImportResult {
+    const { result, writes } = planImport(snapshot, this.keys(), options?.strategy);
+    if (options?.dryRun) return result;
+    if (result.removed.length) this.removeMany(result.removed);
+    if (snapshot.format === "raw") {
+      this.storeItems(writes.map((key) => [key, snapshot.entries[key]]));
+    } else {
+      this.writeEntries(writes.map((key) => {
+        const { value, expiresAt, version, tags, pinned, priority } = snapshot.entries[key];
+        return [key, value, { expiresAt, version, tags, pinned, priority }];
+      }));
+    }
+    return result;
+  }
+
+  pop<T>(key: string): T | null {
+    const item = this.get<T>(key);
+    this.remove(key);
+    return item;
+  }
+
+  get<T>(key: string): T | null {
+    return storedValue(this.readEntry(key)) as T | null;
+  }
+
+  /** Reads a value together with its metadata, or `null` when the key has no value. */
+  getWithMeta<T = unknown>(key: string): EntryWithMeta<T> | null {
+    const entry = this.readEntry(key);
+    return entry ? withMeta<T>(entry) : null;
+  }
+
+  set(key: string, value?: unknown, config?: SetConfig, options?: SetOptions): boolean {
+    let previous: string | null = null;
+    let item: string;
+    try {
+      if (this.isWatched(key) || this.metadata) previous = this.adapter.getItem(this.prefix + key);
+      item = this.serialize(key, value, options, this.replacedEntry(previous));
+      this.writeItem(key, item, config);
+    } catch (error) {
+      return this.writeFailed(error, { operation: "set", key });
+    }
+    this.evictionIndex?.touch(key, options);
+    this.sync?.publish({ type: "set", key: this.prefix + key, item });
+    this.emit(key, previous, item);
+    return true;
+  }
+
+  /**
+   * Writes a raw item. When the quota is exceeded and an eviction policy is set, evicts
+   * entries under the prefix one at a time until the write fits.
+   */
+  private writeItem(key: string, item: string, config?: SetConfig): void {
+    try {
+      this.adapter.setItem(this.prefix + key, item, config);
+    } catch (error) {
+      if (!this.evictionIndex || !this.eviction || !isQuotaError(error)) throw error;
+      const others = this.keys().filter((other) => other !== key);
+      const stored = (other: string) => this.peekEntry(this.adapter.getItem(this.prefix + other));
+      for (const victim of this.evictionIndex.candidates(others, this.eviction, stored)) {
+        this.remove(victim);
+        try {
+          this.adapter.setItem(this.prefix + key, item, config);
+          return;
+        } catch (retryError) {
+          if (!isQuotaError(retryError)) throw retryError;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Writes the updater's result for the current value. Without `options` the entry keeps
+   * its current expiry and version.
+   */
+  update<T>(
+    key: string,
+    updater: (current: T | null) => T,
+    config?: SetConfig,
+    options?: SetOptions,
+  ): boolean {
+    const entry = this.readEntry(key);
+    return this.set(
+      key,
+      updater(storedValue(entry) as T | null),
+      config,
+      options ?? retained(entry),
+    );
+  }
+
+  /**
+   * Writes `next` only if the current value still equals `expected` (compared serialized).
+   * @returns whether the value was written
+   */
+  compareAndSet<T>(
+    key: string,
+    expected: T | null,
+    next: T,
+    config?: SetConfig,
+    options?: SetOptions,
+  ): boolean {
+    if (!sameValue(this.serializer, this.readEntry(key)?.value, expected)) return false;
+    return this.set(key, next, config, options);
+  }
+
+  /** Reads several keys in one batch, using the adapter's `getItems` when it has one. */
+  getMany<T = unknown, K extends string = string>(keys: readonly K[]): Record<K, T | null> {
+    const entries = this.readEntries(keys);
+    return Object.fromEntries(
+      keys.map((key, index) => [key, storedValue(entries[index])]),
+    ) as Record<K, T | null>;
+  }
+
+  /** Writes several keys in one batch, using the adapter's `setItems` when it has one. */
+  setMany(values: Record<string, unknown>, config?: SetConfig, options?: SetOptions): boolean {
+    return this.writeEntries(
+      Object.entries(values).map(([key, value]) => [key, value, options]),
+      config,
+    );
+  }
+
+  /** Removes several keys in one batch, using the adapter's `removeItems` when it has one. */
+  removeMany(keys: readonly string[]): void {
+    const watched = keys.filter((key) => this.isWatched(key));
+    const previous = watched.length ? this.readItems(watched) : [];
+    const { adapter } = this;
+    const fullKeys = keys.map((key) => this.prefix + key);
+    if (adapter.removeItems) adapter.removeItems(fullKeys);
+    else for (const key of fullKeys) adapter.removeItem(key);
+    this.evictionIndex?.forget(keys);
+    for (const key of fullKeys) this.sync?.publish({ type: "remove", key });
+    watched.forEach((key, index) => {
+      if (previous[index] !== null) this.emit(key, previous[index], null);
+    });
+  }
+
+  /**
+   * Applies the writes and removals the callback stages as one unit. When one fails, the keys
+   * already written get their previous items back, unless the adapter's `commit()` applies
+   * them all-or-nothing. Transaction writes never evict. An exception from the callback is
+   * rethrown before anything is written.
+   */
+  transaction(callback: (tx: Transaction<SetConfig>) => void): TransactionResult {
+    const [tx, staged] = transactionRecorder<SetConfig>();
+    callback(tx);
+    const keys = [...new Set(staged.map(({ key }) => key))];
+    const { adapter } = this;
+    let operations: CommitOperation<SetConfig>[] = [];
+    let previous: (string | null)[] = [];
+    let applied = -1;
+    try {
+      previous = this.readItems(keys);
+      const items = new Map(keys.map((key, index) => [this.prefix + key, previous[index]]));
+      operations = this.prepareTransaction(staged, items);
+      if (adapter.commit) adapter.commit(operations);
+      else {
+        for (const { key, item, config } of operations) {
+          applied++;
+          if (item === null) adapter.removeItem(key);
+          else adapter.setItem(key, item, config);
+        }
+      }
+    } catch (error) {
+      const touched = new Set(operations.slice(0, applied + 1).map(({ key }) => key));
+      const unrestored = keys.filter((key, index) => {
+        if (!touched.has(this.prefix + key)) return false;
+        try {
+          if (previous[index] === null) adapter.removeItem(this.prefix + key);
+          else adapter.setItem(this.prefix + key, previous[index]);
+          return false;
+        } catch {
+          return true;
+        }
+      });
+      return this.rolledBack(error, keys, unrestored);
+    }
+    for (const operation of staged) {
+      if (operation.type === "set") this.evictionIndex?.touch(operation.key, operation.options);
+      else this.evictionIndex?.forget([operation.key]);
+    }
+    for (const { key, item } of operations) {
+      this.sync?.publish(item === null ? { type: "remove", key } : { type: "set", key, item });
+    }
+    const items = finalItems(operations);
+    keys.forEach((key, index) => {
+      const item = items.get(this.prefix + key)!;
+      if (this.isWatched(key) && (item !== null || previous[index] !== null)) {
+        this.emit(key, previous[index], item);
+      }
+    });
+    return { status: "committed", keys };
+  }
+
+  private readItems(keys: readonly string[]): (string | null)[] {
+    const { adapter } = this;
+    const fullKeys = keys.map((key) => this.prefix + key);
+    return adapter.getItems
+      ? adapter.getItems(fullKeys)
+      : fullKeys.map((key) => adapter.getItem(key));
+  }
+
+  private readEntries(keys: readonly string[]): (StoredEntry | null)[] {
+    const expired: string[] = [];
+    const entries = this.readItems(keys).map((item, index) => {
+      const entry = this.decode(item, keys[index]);
+      if (!entry || !isExpired(entry)) {
+        if (entry) this.evictionIndex?.access(keys[index]);
+        return entry;
+      }
+      expired.push(keys[index]);
+      return null;
+    });
+    if (expired.length) this.removeMany(expired);
+    return entries;
+  }
+
+  private writeEntries(
+    entries: [key: string, value: unknown, options?: SetOptions][],
+    config?: SetConfig,
+  ): boolean {
+    const items: [key: string, item: string, options?: SetOptions][] = [];
+    try {
+      const replaced = this.metadata ? this.readItems(entries.map(([key]) => key)) : [];
+      for (const [index, [key, value, options]] of entries.entries()) {
+        const entry = this.replacedEntry(replaced[index] ?? null);
+        items.push([key, this.serialize(key, value, options, entry), options]);
+      }
+    } catch (error) {
+      return this.writeFailed(error, { operation: "set" });
+    }
+    return this.storeItems(items, config);
+  }
+
+  /** Writes serialized items in one batch, using the adapter's `setItems` when it has one. */
+  private storeItems(
+    items: [key: string, item: string, options?: SetOptions][],
+    config?: SetConfig,
+  ): boolean {
+    const watched = items.map(([key]) => key).filter((key) => this.isWatched(key));
+    const written = Object.fromEntries(items.map(([key, item]) => [this.prefix + key, item]));
+    let previous: (string | null)[] = [];
+    try {
+      if (watched.length) previous = this.readItems(watched);
+      if (this.adapter.setItems) this.adapter.setItems(written, config);
+      else for (const [key, item] of items) this.writeItem(key, item, config);
+    } catch (error) {
+      return this.writeFailed(error, { operation: "set" });
+    }
+    for (const [key, , options] of items) this.evictionIndex?.touch(key, options);
+    for (const [key, item] of Object.entries(written)) {
+      this.sync?.publish({ type: "set", key, item });
+    }
+    watched.forEach((key, index) => this.emit(key, previous[index], written[this.prefix + key]));
+    return true;
+  }
+
+  private readEntry(key: string): StoredEntry | null {
+    const entry = this.decode(this.adapter.getItem(this.prefix + key), key);
+    if (entry && isExpired(entry)) {
+      this.remove(key);
+      return null;
+    }
+    if (entry) this.evictionIndex?.access(key);
+    return entry;
+  }
+
+  remove(key: string): void {
+    const previous = this.isWatched(key) ? this.adapter.getItem(this.prefix + key) : null;
+    this.adapter.removeItem(this.prefix + key);
+    this.evictionIndex?.forget([key]);
+    this.sync?.publish({ type: "remove", key: this.prefix + key });
+    if (previous !== null) this.emit(key, previous, null);
+  }
+
+  /**
+   * Applies a write received on the sync channel to the adapter, except under child namespaces
+   * sharing the channel, which apply their own keys.
+   */
+  private applySync(message: SyncMessage): void {
+    let keys: string[];
+    if (message.type !== "clear") keys = [message.key];
+    else {
+      const { adapter } = this;
+      const enumerable = typeof adapter.key === "function" && typeof adapter.length === "number";
+      keys = enumerable
+        ? this.prefixedKeys("sync")
+        : this.subscribedKeys().map((key) => this.prefix + key);
+      keys = keys.filter((key) => !this.sync?.writtenAfter(key, message));
+    }
+    const item = message.type === "set" ? message.item : null;
+    for (const fullKey of keys) {
+      if (!fullKey.startsWith(this.prefix)) continue;
+      // bookkeeping like the eviction index is not a user change
+      if (isReservedKey(fullKey.slice(this.prefix.length)) || this.syncedByChild(fullKey)) continue;
+      const key = fullKey.slice(this.prefix.length);
+      let previous: string | null = null;
+      try {
+        previous = this.adapter.getItem(fullKey);
+        if (item === null) this.adapter.removeItem(fullKey);
+        else this.adapter.setItem(fullKey, item);
+      } catch (error) {
+        this.reportError(toWriteError(error, key), { operation: "sync", key });
+        continue;
+      }
+      if (previous !== null || item !== null) this.emit(key, previous, item, "external");
+    }
+  }
+
+  /**
+   * Forwards `storage` events for keys under the prefix when the adapter is a native
+   * `localStorage`/`sessionStorage`, so writes from other tabs reach the same listeners.
+   */
+  protected override watchExternalChanges(): (() => void) | undefined {
+    const { adapter } = this;
+    if (typeof Storage === "undefined" || !(adapter instanceof Storage)) return undefined;
+    if (typeof globalThis.addEventListener !== "function") return undefined;
+
+    const listener = (event: Event) => {
+      const { key, oldValue, newValue, storageArea } = event as Event & {
+        key: string | null;
+        oldValue: string | null;
+        newValue: string | null;
+        storageArea: unknown;
+      };
+      if (storageArea !== adapter) return;
+      if (key === null) {
+        // another tab called clear(); the previous values are gone
+        for (const watched of this.subscribedKeys()) this.emit(watched, null, null, "external");
+      } else if (key.startsWith(this.prefix) && !isReservedKey(key.slice(this.prefix.length))) {
+        this.emit(key.slice(this.prefix.length), oldValue, newValue, "external");
+      }
+    };
+    globalThis.addEventListener("storage", listener);
+    return () => globalThis.removeEventListener("storage", listener);
+  }
+
+  /** Keys whose listeners must hear about an unprefixed clear(), without the prefix. */
+  private clearedKeys(): string[] {
+    if (!this.hasListeners()) return [];
+    const { adapter } = this;
+    if (typeof adapter.key === "function" && typeof adapter.length === "number") {
+      return this.prefixedKeys("clear()");
+    }
+    return this.subscribedKeys();
+  }
+
+  /** Lists the full adapter keys under the prefix, for operations that walk the namespace. */
+  private prefixedKeys(operation: string): string[] {
+    const { adapter } = this;
+    if (typeof adapter.key !== "function" || typeof adapter.length !== "number") {
+      throw new Error(
+        `${operation} requires an adapter that implements key(index) and length`,
+      );
+    }
+    const keys: string[] = [];
+    for (let i = 0; i < adapter.length; i++) {
+      const key = adapter.key(i);
+      if (key === null || !key.startsWith(this.prefix)) continue;
+      if (!isReservedKey(key.slice(this.prefix.length))) keys.push(key);
+    }
+    return keys;
+  }
+
+  defineGroup<TypeMap extends Record<string, unknown> = Record<string, unknown>>(
+    group: { [K in keyof TypeMap]: string },
+    options?: { [K in keyof TypeMap]?: DefineOptions<TypeMap[K]> },
+  ): DefineGroupResponse<TypeMap, SetConfig> {
+    type Result = DefineGroupResponse<TypeMap, SetConfig>;
+    const aliases = Object.keys(group) as (keyof TypeMap)[];
+    const result = aliases.reduce((prev, next) => ({
+      ...prev,
+      [next]: this.define(group[next], undefined, options?.[next]),
+    }), {} as Result);
+    // non-enumerable, so iterating a group still only yields its defined keys
+    return Object.defineProperties(result, {
+      getAll: {
+        value: () => {
+          const entries = this.readEntries(aliases.map((alias) => group[alias]));
+          return Object.fromEntries(aliases.map((alias, index) => {
+            const [key, defaults] = [group[alias], options?.[alias]];
+            const value = this.migrated(key, entries[index], defaults, {});
+            return [alias, this.validated(key, value, defaults)];
+          }));
+        },
+      },
+      setAll: {
+        value: (values: Partial<TypeMap>, config?: SetConfig, setOptions?: SetOptions) =>
+          this.writeEntries(
+            (Object.keys(values) as (keyof TypeMap)[]).map((alias) => {
+              const defaults = options?.[alias];
+              return [group[alias], values[alias], {
+                ...stickyOptions(defaults),
+                ...setOptions ?? defaults,
+              }];
+            }),
+            config,
+          ),
+      },
+    });
+  }
+
+  /**
+   * Defines a family of keys from a template such as `"draft:{id}"`. Every member shares the
+   * defaults; the family lists, reads and clears its stored members.
+   */
+  defineFamily<Params extends { [K in keyof Params]: string }, DefinedType = unknown>(
+    template: FamilyTemplate<Params>,
+    defaultConfig?: SetConfig,
+    defaultOptions?: DefineOptions<DefinedType>,
+  ): DefineFamilyResponse<Params, DefinedType, SetConfig> {
+    const keys = new KeyTemplate(template as string);
+    const members = () =>
+      this.keys().flatMap((key) => {
+        const params = keys.parse(key);
+        return params ? [[key, params as Params] as const] : [];
+      });
+    return Object.assign(
+      (params: Params) => this.define(keys.format(params), defaultConfig, defaultOptions),
+      {
+        template: template as string,
+        keys: () => members().map(([, params]) => params),
+        entries: () => {
+          const found = members();
+          const entries = this.readEntries(found.map(([key]) => key));
+          return found.flatMap(([key, params], index) => {
+            const config = { config: defaultConfig };
+            const value = this.migrated(key, entries[index], defaultOptions, config);
+            const validated = this.validated<DefinedType>(key, value, defaultOptions);
+            return entries[index] && validated !== null ? [[params, validated] as const] : [];
+          }) as [Params, DefinedType][];
+        },
+        clearAll: () => this.removeMany(members().map(([key]) => key)),
+      },
+    );
+  }
+
+  define<DefinedType = unknown>(
+    key: string,
+    defaultConfig?: SetConfig,
+    defaultOptions?: DefineOptions<DefinedType>,
+  ): DefineResponse<DefinedType, SetConfig> {
+    const sticky = stickyOptions(defaultOptions);
+    const response: DefineResponse<DefinedType, SetConfig> = {
+      get: <T = DefinedType>(): T | null => {
+        const value = this.migrated(key, this.readEntry(key), defaultOptions, {
+          config: defaultConfig,
+        });
+        return this.validated<T>(key, value, defaultOptions);
+      },
+      getWithMeta: <T = DefinedType>(): EntryWithMeta<T> | null => {
+        const entry = this.readEntry(key);
+        if (!entry) return null;
+        const migrated = this.migrated(key, entry, defaultOptions, { config: defaultConfig });
+        const value = this.validated<T>(key, migrated, defaultOptions);
+        return value === null ? null : { value, meta: withMeta(entry).meta };
+      },
+      set: (value: DefinedType, config?: SetConfig, options?: SetOptions) =>
+        this.set(key, value, config ?? defaultConfig, { ...sticky, ...options ?? defaultOptions }),
+      remove: () => this.remove(key),
+      pop: <T = DefinedType>(): T | null => {
+        const entry = this.readEntry(key);
+        this.remove(key);
+        return this.validated<T>(key, this.migrated(key, entry, defaultOptions), defaultOptions);
+      },
+      update: (updater, config, options) => response.set(updater(response.get()), config, options),
+      subscribe: (listener: StorageListener<DefinedType>) => this.subscribe(key, listener),
+      size: () => utf16Bytes(this.prefix + key, this.adapter.getItem(this.prefix + key)),
+      item: () => this.adapter.getItem(this.prefix + key),
+      key: this.prefix + key,
+    };
+    return response;
+  }
+
+  /**
+   * Brings a defined key's entry up to its defined version, writing the migrated
+   * value back (with its expiry) when `writeBack` is set.
+   */
+  private migrated(
+    key: string,
+    entry: StoredEntry | null,
+    options: DefineOptions<unknown> | undefined,
+    writeBack?: { config?: SetConfig },
+  ): unknown {
+    if (!entry || !options) return storedValue(entry);
+    const { value, changed } = migrate(entry, options);
+    if (changed && writeBack) {
+      this.set(key, value, writeBack.config, {
+        expiresAt: entry.expiresAt,
+        version: options.version,
+        tags: entry.tags,
+      });
+    }
+    return value ?? null;
+  }
+
+  private validated<T>(key: string, value: unknown, options?: DefineOptions<unknown>): T | null {
+    if (value === null) return (options?.defaultValue as T) ?? null;
+    if (!options?.validate) return value as T;
+    const result = runValidator(options.validate, value);
+    if (result instanceof Promise) {
+      throw new TypeError("BrowserStorage.define() requires a synchronous validator");
+    }
+    const settled = settleValidation(this.prefix + key, value, result, options);
+    if (settled.invalid && options.removeInvalid) this.remove(key);
+    return settled.value as T | null;
+  }
+}
+
+/**
+ * Asynchronous browser storage class with in memory cached storage.
+ * @template SetConfig - Optional configuration object for the setItem method.
+ */
+export class AsyncBrowserStorage<SetConfig = unknown> extends AbstractBrowserStorage<SetConfig> {
+  readonly adapter: AsyncAdapter<SetConfig>;
+  readonly cache: CachePolicy;
+  readonly prefix: string;
+  readonly serializer: Serializer;
+  readonly onError?: StorageErrorHandler;
+  readonly strict: boolean;
+  readonly metadata: boolean;
+  private readonly flushInterval?: number;
+  /**
+   * Write-behind operations not yet flushed, keyed by full key; a `null` item is a removal.
+   * Shared with child namespaces, like the cached items.
+   */
+  private pending = new Map<string, { item: string | null; config?: SetConfig }>();
+  private cachedItems = new MemoryStorageAdapter();
+  private cancelFlush?: () => void;
+  private readonly crossTabLocks: boolean;
+  private readonly compressionThreshold?: number;
+  /** Tail of the update queue per full key. */
+  private readonly queues = new Map<string, Promise<unknown>>();
+  private readonly config: AsyncStorageConfig;
+
+  constructor(config: AsyncStorageConfig) {
+    super();
+    this.config = config;
+    this.adapter = config.adapter;
+    this.cache = config.cache ?? "none";
+    this.flushInterval = config.flushInterval;
+    this.crossTabLocks = config.crossTabLocks ?? false;
+    this.prefix = config.prefix ?? "";
+    this.serializer = config.serializer ?? JSON;
+    this.onError = config.onError;
+    this.strict = config.strict ?? false;
+    this.metadata = config.metadata ?? false;
+    this.compressionThreshold = compressionThreshold(config.compression);
+    if (config.sync) {
+      this.sync = SyncChannel.open(config.sync, (message) => this.applySync(message));
+    }
+  }
+
+  /** In-memory cache of raw items, keyed by their full (prefixed) key. */
+  get cachedAdapter(): MemoryStorageAdapter {
+    return this.cachedItems;
+  }
+
+  /** Writes every cached item to the adapter. */
+  async syncCache(): Promise<void> {
+    for (const [key, value] of this.cachedAdapter.entries()) {
+      await this.adapter.setItem(key, await this.compressed(value));
+    }
+  }
+
+  getCache(key: string): string | null {
+    return this.cachedAdapter.getItem(this.prefix + key);
+  }
+
+  setCache(key: string, value?: string): void {
+    if (value !== undefined) this.cachedAdapter.setItem(this.prefix + key, value);
+  }
+
+  removeCache(key: string): void {
+    this.cachedAdapter.removeItem(this.prefix + key);
+  }
+
+  /**
+   * Writes pending `write-behind` operations to the adapter. Operations that fail stay
+   * pending and the first error is rethrown.
+   */
+  async flush(): Promise<void> {
+    this.cancelFlush?.();
+    this.cancelFlush = undefined;
+    const batch = [...this.pending];
+    this.pending.clear();
+    let failure: { error: unknown } | undefined;
+    for (const [key, operation] of batch) {
+      try {
+        if (operation.item === null) await this.adapter.removeItem(key);
+        else {
+          await this.adapter.setItem(key, await this.compressed(operation.item), operation.config);
+        }
+      } catch (error) {
+        failure ??= { error };
+        // a newer write to the same key supersedes the failed one
+        if (!this.pending.has(key)) this.pending.set(key, operation);
+      }
+    }
+    if (failure) throw toWriteError(failure.error);
+  }
+
+  async clear(): Promise<void> {
+    if (!this.prefix) {
+      const previous: [string, string | null][] = [];
+      for (const key of await this.clearedKeys()) {
+        previous.push([key, await this.readItem(key)]);
+      }
+      this.cachedAdapter.clear();
+      this.pending.clear();
+      await this.adapter.clear?.();
+      this.sync?.publish({ type: "clear" });
+      for (const [key, item] of previous) if (item !== null) this.emit(key, item, null);
+      return;
+    }
+    for (const key of await this.prefixedKeys("clear() with a prefix")) {
+      await this.remove(key.slice(this.prefix.length));
+    }
+    // a clear() reaches the adapter right away, even under write-behind
+    if (this.pending.size) await this.flush();
+  }
+
+  /**
+   * Removes every expired entry under the prefix.
+   * @returns the number of entries removed
+   */
+  async purgeExpired(): Promise<number> {
+    let purged = 0;
+    for (const key of await this.prefixedKeys("purgeExpired()")) {
+      const entry = this.decode(await this.readItem(key), key.slice(this.prefix.length));
+      if (entry && isExpired(entry)) {
+        await this.deleteItem(key);
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  /**
+   * Lists the keys under the prefix, without the prefix. Expired entries that have not been
+   * read or purged yet are included.
+   */
+  async keys(): Promise<string[]> {
+    return (await this.prefixedKeys("keys()")).map((key) => key.slice(this.prefix.length));
+  }
+
+  /**
+   * A child storage for the namespace `name`, sharing this storage's adapter and settings under
+   * the prefix `<prefix><name><separator>`. Its `clear()` only touches its own keys. It shares
+   * the in-memory cache and pending write-behind writes, so the parent's `clear()` and `keys()`
+   * see the child's writes.
+   */
+  namespace(name: string, options?: NamespaceOptions): AsyncBrowserStorage<SetConfig> {
+    const { sync: _sync, ...config } = this.config;
+    const child = new AsyncBrowserStorage<SetConfig>({
+      ...config,
+      prefix: this.namespacePrefix(name, options),
+    });
+    child.pending = this.pending;
+    child.cachedItems = this.cachedItems;
+    this.shareSync(child, (message) => child.applySync(message));
+    return child;
+  }
+
+  /**
+   * Lists the names of the namespaces created from this storage that hold keys, in the order
+   * they were created. Keys are not parsed, so other keys holding the separator are not listed.
+   */
+  async namespaces(): Promise<string[]> {
+    return this.namespaceNames(await this.keys());
+  }
+
+  /** Lists the deserialized values under the prefix, skipping expired entries. */
+  async values<T = unknown>(): Promise<T[]> {
+    return (await this.entries<T>()).map(([, value]) => value);
+  }
+
+  /** Lists `[key, value]` pairs under the prefix, without the prefix, skipping expired entries. */
+  async entries<T = unknown>(): Promise<[string, T][]> {
+    const entries: [string, T][] = [];
+    for await (const entry of this) entries.push(entry as [string, T]);
+    return entries;
+  }
+
+  /** Entries under the prefix with their metadata, narrowed by the filter. */
+  async entriesWithMeta<T = unknown>(
+    filter: MetadataFilter = {},
+  ): Promise<[string, EntryWithMeta<T>][]> {
+    const now = Date.now();
+    const entries: [string, EntryWithMeta<T>][] = [];
+    for (const key of await this.keys()) {
+      const entry = await this.readEntry(key);
+      if (entry && matchesFilter(entry, filter, now)) entries.push([key, withMeta<T>(entry)]);
+    }
+    return entries;
+  }
+
+  /** Whether a live (unexpired) value is stored at the key. */
+  async has(key: string): Promise<boolean> {
+    return (await this.readEntry(key)) !== null;
+  }
+
+  /** Number of keys under the prefix, counted like `keys()`. */
+  async size(): Promise<number> {
+    return (await this.keys()).length;
+  }
+
+  /** Measures the bytes each key under the prefix takes in the adapter, as UTF-8. */
+  async usage(options?: UsageOptions): Promise<StorageUsage> {
+    const keys: KeyUsage[] = [];
+    for (const key of await this.prefixedKeys("usage()")) {
+      keys.push({ key: key.slice(this.prefix.length), bytes: await this.itemBytes(key) });
+    }
+    return await summarizeUsage(keys, options);
+  }
+
+  /** Bytes a key, by full key, takes in the adapter, counting pending write-behind writes. */
+  private async itemBytes(key: string): Promise<number> {
+    return utf8Bytes(key, await this.storedItem(key));
+  }
+
+  /** The item the adapter holds for a full key, or will once pending writes are flushed. */
+  private async storedItem(key: string): Promise<string | null> {
+    const pending = this.pending.get(key);
+    if (!pending) return await this.adapter.getItem(key);
+    return pending.item === null ? null : await this.compressed(pending.item);
+  }
+
+  /** Captures every entry under the prefix, keyed without the prefix. */
+  async exportSnapshot(options?: ExportOptions): Promise<StorageSnapshot> {
+    const keys = await this.keys();
+    return options?.format === "raw"
+      ? takeSnapshot(
+        this.prefix,
+        "raw",
+        keys,
+        await this.readItems(keys.map((key) => this.prefix + key)),
+      )
+      : takeSnapshot(this.prefix, "values", keys, await this.readEntries(keys));
+  }
+
+  /**
+   * Restores a snapshot under this storage's prefix. Write failures are reported like `set()`.
+   * @returns the keys added, overwritten, skipped and removed (or that would be, on a dry run)
+   */
+  async importSnapshot(snapshot: StorageSnapshot, options?: ImportOptions): Promise<ImportResult> {
+    const { result, writes } = planImport(snapshot, await this.keys(), options?.strategy);
+    if (options?.dryRun) return result;
+    if (result.removed.length) await this.removeMany(result.removed);
+    if (snapshot.format === "raw") {
+      await this.storeItems(writes.map((key) => [key, snapshot.entries[key]]));
+    } else {
+      await this.writeEntries(writes.map((key) => {
+        const { value, expiresAt, version, tags, pinned, priority } = snapshot.entries[key];
+        return [key, value, { expiresAt, version, tags, pinned, priority }];
+      }));
+    }
+    return result;
+  }
+
+  /** Reads entries one at a time, so iteration can stop early without reading every value. */
+  async *[Symbol.asyncIterator](): AsyncIterableIterator<[string, unknown]> {
+    for (const key of await this.keys()) {
+      const entry = await this.readEntry(key);
+      if (entry) yield [key, entry.value];
     }
   }
 
   async get<T>(key: string): Promise<T | null> {
-    return this.fromStore<T>(await this.adapter.getItem(this.prefix + key));
+    return storedValue(await this.readEntry(key)) as T | null;
+  }
+
+  /** Reads a value together with its metadata, or `null` when the key has no value. */
+  async getWithMeta<T = unknown>(key: string): Promise<EntryWithMeta<T> | null> {
+    const entry = await this.readEntry(key);
+    return entry ? withMeta<T>(entry) : null;
   }
 
   async pop<T>(key: string): Promise<T | null> {
@@ -284,42 +2617,601 @@ export class AsyncBrowserStorage<SetConfig = unknown> extends AbstractBrowserSto
     return item;
   }
 
-  async set(key: string, value?: unknown, config?: SetConfig): Promise<boolean> {
+  async set(
+    key: string,
+    value?: unknown,
+    config?: SetConfig,
+    options?: SetOptions,
+  ): Promise<boolean> {
+    let previous: string | null = null;
+    let item: string;
     try {
-      await this.adapter.setItem(this.prefix + key, this.toStore(value), config);
-      return true;
-    } catch {
-      // setItem failed (quota exceeded, serialization error, etc.)
+      if (this.isWatched(key) || this.metadata) previous = await this.readItem(this.prefix + key);
+      item = this.serialize(key, value, options, this.replacedEntry(previous));
+      await this.writeItem(this.prefix + key, item, config);
+    } catch (error) {
+      return this.writeFailed(error, { operation: "set", key });
     }
-    return false;
+    this.emit(key, previous, item);
+    return true;
+  }
+
+  /**
+   * Writes the updater's result for the current value. Without `options` the entry keeps
+   * its current expiry and version. Updates to the same key run one at a time, so
+   * concurrent updates never lose writes.
+   */
+  update<T>(
+    key: string,
+    updater: (current: T | null) => T | Promise<T>,
+    config?: SetConfig,
+    options?: SetOptions,
+  ): Promise<boolean> {
+    return this.exclusive(key, async () => {
+      const entry = await this.readEntry(key);
+      const next = await updater(storedValue(entry) as T | null);
+      return this.set(key, next, config, options ?? retained(entry));
+    });
+  }
+
+  /**
+   * Writes `next` only if the current value still equals `expected` (compared serialized).
+   * Runs in the same per-key queue as `update()`.
+   * @returns whether the value was written
+   */
+  compareAndSet<T>(
+    key: string,
+    expected: T | null,
+    next: T,
+    config?: SetConfig,
+    options?: SetOptions,
+  ): Promise<boolean> {
+    return this.exclusive(key, async () => {
+      const current = await this.readEntry(key);
+      if (!sameValue(this.serializer, current?.value, expected)) return false;
+      return this.set(key, next, config, options);
+    });
+  }
+
+  /**
+   * Queues a task behind earlier tasks for the same key, holding a Web Lock for the key
+   * while it runs when `crossTabLocks` is enabled.
+   */
+  private exclusive<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const fullKey = this.prefix + key;
+    const locks = this.crossTabLocks
+      ? (globalThis.navigator as { locks?: LockManager } | undefined)?.locks
+      : undefined;
+    const run = (this.queues.get(fullKey) ?? Promise.resolve()).then(() =>
+      locks ? locks.request(LOCK_PREFIX + fullKey, task) : task()
+    );
+    const tail = run.catch(() => {});
+    this.queues.set(fullKey, tail);
+    tail.then(() => {
+      if (this.queues.get(fullKey) === tail) this.queues.delete(fullKey);
+    });
+    return run;
+  }
+
+  /** Reads several keys in one batch, using the adapter's `getItems` when it has one. */
+  async getMany<T = unknown, K extends string = string>(
+    keys: readonly K[],
+  ): Promise<Record<K, T | null>> {
+    const entries = await this.readEntries(keys);
+    return Object.fromEntries(
+      keys.map((key, index) => [key, storedValue(entries[index])]),
+    ) as Record<K, T | null>;
+  }
+
+  /** Writes several keys in one batch, using the adapter's `setItems` when it has one. */
+  setMany(
+    values: Record<string, unknown>,
+    config?: SetConfig,
+    options?: SetOptions,
+  ): Promise<boolean> {
+    return this.writeEntries(
+      Object.entries(values).map(([key, value]) => [key, value, options]),
+      config,
+    );
+  }
+
+  /** Removes several keys in one batch, using the adapter's `removeItems` when it has one. */
+  async removeMany(keys: readonly string[]): Promise<void> {
+    const watched = keys.filter((key) => this.isWatched(key));
+    const previous = watched.length
+      ? await this.readItems(watched.map((key) => this.prefix + key))
+      : [];
+    await this.deleteItems(keys.map((key) => this.prefix + key));
+    watched.forEach((key, index) => {
+      if (previous[index] !== null) this.emit(key, previous[index], null);
+    });
+  }
+
+  /**
+   * Applies the writes and removals the callback stages as one unit, queued behind other
+   * tasks for the same keys like `update()`. Pending write-behind writes are flushed first and
+   * the transaction goes straight to the adapter. When an operation fails, the keys already
+   * written get their previous items back, unless the adapter's `commit()` applies them
+   * all-or-nothing. An exception from the callback is rethrown before anything is written.
+   */
+  async transaction(
+    callback: (tx: Transaction<SetConfig>) => void | Promise<void>,
+  ): Promise<TransactionResult> {
+    const [tx, staged] = transactionRecorder<SetConfig>();
+    await callback(tx);
+    const keys = [...new Set(staged.map(({ key }) => key))];
+    const task = [...keys].sort().reduceRight<() => Promise<TransactionResult>>(
+      (next, key) => () => this.exclusive(key, next),
+      () => this.commitTransaction(keys, staged),
+    );
+    return await task();
+  }
+
+  private async commitTransaction(
+    keys: string[],
+    staged: StagedOperation<SetConfig>[],
+  ): Promise<TransactionResult> {
+    const { adapter } = this;
+    const fullKeys = keys.map((key) => this.prefix + key);
+    let operations: CommitOperation<SetConfig>[] = [];
+    let previous: (string | null)[] = [];
+    let applied = -1;
+    try {
+      if (this.pending.size) await this.flush();
+      previous = adapter.getItems
+        ? await adapter.getItems(fullKeys)
+        : await Promise.all(fullKeys.map((key) => adapter.getItem(key)));
+      const items = new Map<string, string | null>();
+      if (this.metadata) {
+        for (const [index, key] of fullKeys.entries()) {
+          items.set(key, await this.decompressed(key, previous[index]));
+        }
+      }
+      operations = this.prepareTransaction(staged, items);
+      const stored = await Promise.all(operations.map(async (operation) => ({
+        ...operation,
+        item: operation.item === null ? null : await this.compressed(operation.item),
+      })));
+      if (adapter.commit) await adapter.commit(stored);
+      else {
+        for (const { key, item, config } of stored) {
+          applied++;
+          if (item === null) await adapter.removeItem(key);
+          else await adapter.setItem(key, item, config);
+        }
+      }
+    } catch (error) {
+      const touched = new Set(operations.slice(0, applied + 1).map(({ key }) => key));
+      const unrestored: string[] = [];
+      for (const [index, key] of fullKeys.entries()) {
+        if (!touched.has(key)) continue;
+        try {
+          if (previous[index] === null) await adapter.removeItem(key);
+          else await adapter.setItem(key, previous[index]);
+        } catch {
+          unrestored.push(keys[index]);
+        }
+      }
+      return this.rolledBack(error, keys, unrestored);
+    }
+    const items = finalItems(operations);
+    for (const [key, item] of items) {
+      if (item !== null && (this.cache === "write-through" || this.cache === "write-behind")) {
+        this.cachedAdapter.setItem(key, item);
+      } else this.cachedAdapter.removeItem(key);
+    }
+    for (const { key, item } of operations) this.publish(item === null ? [key] : { [key]: item });
+    for (const [index, key] of keys.entries()) {
+      const item = items.get(fullKeys[index])!;
+      if (!this.isWatched(key) || (item === null && previous[index] === null)) continue;
+      this.emit(key, await this.decompressed(fullKeys[index], previous[index]), item);
+    }
+    return { status: "committed", keys };
+  }
+
+  private async readEntries(keys: readonly string[]): Promise<(StoredEntry | null)[]> {
+    const expired: string[] = [];
+    const items = await this.readItems(keys.map((key) => this.prefix + key));
+    const entries = items.map((item, index) => {
+      const entry = this.decode(item, keys[index]);
+      if (!entry || !isExpired(entry)) return entry;
+      expired.push(keys[index]);
+      return null;
+    });
+    if (expired.length) await this.removeMany(expired);
+    return entries;
+  }
+
+  private async writeEntries(
+    entries: [key: string, value: unknown, options?: SetOptions][],
+    config?: SetConfig,
+  ): Promise<boolean> {
+    const items: [key: string, item: string][] = [];
+    try {
+      const replaced = this.metadata
+        ? await this.readItems(entries.map(([key]) => this.prefix + key))
+        : [];
+      for (const [index, [key, value, options]] of entries.entries()) {
+        const entry = this.replacedEntry(replaced[index] ?? null);
+        items.push([key, this.serialize(key, value, options, entry)]);
+      }
+    } catch (error) {
+      return this.writeFailed(error, { operation: "set" });
+    }
+    return await this.storeItems(items, config);
+  }
+
+  /** Writes serialized items in one batch through the cache policy. */
+  private async storeItems(
+    items: [key: string, item: string][],
+    config?: SetConfig,
+  ): Promise<boolean> {
+    const watched = items.map(([key]) => key).filter((key) => this.isWatched(key));
+    const written = Object.fromEntries(items.map(([key, item]) => [this.prefix + key, item]));
+    let previous: (string | null)[] = [];
+    try {
+      if (watched.length) previous = await this.readItems(watched.map((key) => this.prefix + key));
+      await this.writeItems(written, config);
+    } catch (error) {
+      return this.writeFailed(error, { operation: "set" });
+    }
+    watched.forEach((key, index) => this.emit(key, previous[index], written[this.prefix + key]));
+    return true;
+  }
+
+  private async readEntry(key: string): Promise<StoredEntry | null> {
+    const entry = this.decode(await this.readItem(this.prefix + key), key);
+    if (entry && isExpired(entry)) {
+      await this.remove(key);
+      return null;
+    }
+    return entry;
   }
 
   async remove(key: string): Promise<void> {
-    await this.adapter.removeItem(this.prefix + key);
+    const previous = this.isWatched(key) ? await this.readItem(this.prefix + key) : null;
+    await this.deleteItem(this.prefix + key);
+    if (previous !== null) this.emit(key, previous, null);
+  }
+
+  /** Reads a raw item by full key through the cache policy. */
+  private async readItem(key: string): Promise<string | null> {
+    return (await this.readItems([key]))[0];
+  }
+
+  /** Writes a raw item by full key through the cache policy. */
+  private async writeItem(key: string, item: string, config?: SetConfig): Promise<void> {
+    await this.writeItems({ [key]: item }, config);
+  }
+
+  /** Removes a raw item by full key through the cache policy. */
+  private async deleteItem(key: string): Promise<void> {
+    await this.deleteItems([key]);
+  }
+
+  /** Reads raw items by full key through the cache policy, batching adapter misses. */
+  private async readItems(keys: readonly string[]): Promise<(string | null)[]> {
+    const items = keys.map((key) => {
+      const pending = this.pending.get(key);
+      if (pending) return pending.item;
+      return this.cache === "none" ? null : this.cachedAdapter.getItem(key);
+    });
+    // a key asked for twice is fetched once and fills both slots
+    const misses = [
+      ...new Set(keys.filter((key, index) => items[index] === null && !this.pending.has(key))),
+    ];
+    if (!misses.length) return items;
+
+    const { adapter } = this;
+    const fetched = adapter.getItems ? await adapter.getItems(misses) : [];
+    if (!adapter.getItems) { for (const key of misses) fetched.push(await adapter.getItem(key)); }
+    const found = new Map<string, string | null>();
+    for (const [index, key] of misses.entries()) {
+      const item = await this.decompressed(key, fetched[index]);
+      found.set(key, item);
+      if (item !== null && this.cache !== "none") this.cachedAdapter.setItem(key, item);
+    }
+    return items.map((item, index) => found.get(keys[index]) ?? item);
+  }
+
+  /** Writes raw items by full key through the cache policy. */
+  private async writeItems(items: Record<string, string>, config?: SetConfig): Promise<void> {
+    const entries = Object.entries(items);
+    if (this.cache === "write-behind") {
+      for (const [key, item] of entries) {
+        this.cachedAdapter.setItem(key, item);
+        this.pending.set(key, { item, config });
+      }
+      this.scheduleFlush();
+      this.publish(items);
+      return;
+    }
+    if (this.cache === "read-through") {
+      for (const [key] of entries) this.cachedAdapter.removeItem(key);
+    }
+    const stored: Record<string, string> = {};
+    for (const [key, item] of entries) stored[key] = await this.compressed(item);
+    const { adapter } = this;
+    if (adapter.setItems) await adapter.setItems(stored, config);
+    else for (const [key, item] of Object.entries(stored)) await adapter.setItem(key, item, config);
+    if (this.cache === "write-through") {
+      for (const [key, item] of entries) this.cachedAdapter.setItem(key, item);
+    }
+    this.publish(items);
+  }
+
+  /** Publishes written items, or removed keys, on the sync channel. */
+  private publish(items: Record<string, string> | readonly string[]): void {
+    if (!this.sync) return;
+    if (Array.isArray(items)) {
+      for (const key of items) this.sync.publish({ type: "remove", key });
+    } else {
+      for (const [key, item] of Object.entries(items)) {
+        this.sync.publish({ type: "set", key, item });
+      }
+    }
+  }
+
+  /**
+   * Applies a write received on the sync channel to the in-memory cache. The adapter is shared
+   * with the writer, so it is left alone; pending write-behind writes the received write
+   * supersedes are dropped.
+   */
+  private applySync(message: SyncMessage): void {
+    let keys: string[];
+    if (message.type !== "clear") keys = [message.key];
+    else {
+      keys = [
+        ...new Set([
+          ...Array.from(this.cachedAdapter.entries(), ([key]) => key),
+          ...this.pending.keys(),
+          ...this.subscribedKeys().map((key) => this.prefix + key),
+        ]),
+      ].filter((key) => !this.sync?.writtenAfter(key, message));
+    }
+    const item = message.type === "set" ? message.item : null;
+    for (const fullKey of keys) {
+      if (!fullKey.startsWith(this.prefix)) continue;
+      // bookkeeping like the eviction index is not a user change
+      if (isReservedKey(fullKey.slice(this.prefix.length))) continue;
+      const pending = this.pending.get(fullKey);
+      const previous = pending ? pending.item : this.cachedAdapter.getItem(fullKey);
+      this.pending.delete(fullKey);
+      if (item !== null && this.cache !== "none") this.cachedAdapter.setItem(fullKey, item);
+      else this.cachedAdapter.removeItem(fullKey);
+      this.emit(fullKey.slice(this.prefix.length), previous, item, "external");
+    }
+  }
+
+  /** Compresses an item on its way to the adapter. */
+  private async compressed(item: string): Promise<string> {
+    const threshold = this.compressionThreshold;
+    if (threshold === undefined || item.length < threshold) return item;
+    const compressed = DEFLATE_MARKER + await deflate(item);
+    return compressed.length < item.length ? compressed : item;
+  }
+
+  /** Decompresses an item read from the adapter by full key; a corrupt one reads as missing. */
+  private async decompressed(key: string, item: string | null): Promise<string | null> {
+    if (item === null || !item.startsWith(DEFLATE_MARKER)) return item;
+    try {
+      return await inflate(item.slice(DEFLATE_MARKER.length));
+    } catch (error) {
+      this.reportCorruption(error, key.slice(this.prefix.length));
+      return null;
+    }
+  }
+
+  /** Removes raw items by full key through the cache policy. */
+  private async deleteItems(keys: readonly string[]): Promise<void> {
+    for (const key of keys) this.cachedAdapter.removeItem(key);
+    if (this.cache === "write-behind") {
+      for (const key of keys) this.pending.set(key, { item: null });
+      this.scheduleFlush();
+      this.publish(keys);
+      return;
+    }
+    const { adapter } = this;
+    if (adapter.removeItems) await adapter.removeItems([...keys]);
+    else for (const key of keys) await adapter.removeItem(key);
+    this.publish(keys);
+  }
+
+  private scheduleFlush(): void {
+    if (this.cancelFlush) return;
+    const flush = () => {
+      this.cancelFlush = undefined;
+      // failed operations stay pending for the next flush
+      this.flush().catch((error) => this.reportError(error, { operation: "flush" }));
+    };
+    const { requestIdleCallback, cancelIdleCallback } = globalThis as {
+      requestIdleCallback?: (callback: () => void) => number;
+      cancelIdleCallback?: (handle: number) => void;
+    };
+    if (this.flushInterval === undefined && requestIdleCallback && cancelIdleCallback) {
+      const handle = requestIdleCallback(flush);
+      this.cancelFlush = () => cancelIdleCallback(handle);
+    } else {
+      const handle = setTimeout(flush, this.flushInterval ?? 0);
+      this.cancelFlush = () => clearTimeout(handle);
+    }
+  }
+
+  /** Keys whose listeners must hear about an unprefixed clear(), without the prefix. */
+  private async clearedKeys(): Promise<string[]> {
+    if (!this.hasListeners()) return [];
+    if (typeof this.adapter.keys === "function") return await this.prefixedKeys("clear()");
+    return this.subscribedKeys();
+  }
+
+  /**
+   * Lists the full adapter keys under the prefix, for operations that walk the namespace.
+   * Pending write-behind operations are flushed first so the adapter is up to date.
+   */
+  private async prefixedKeys(operation: string): Promise<string[]> {
+    const { adapter } = this;
+    if (typeof adapter.keys !== "function") {
+      throw new Error(`${operation} requires an adapter that implements keys()`);
+    }
+    if (this.pending.size) await this.flush();
+    return (await adapter.keys()).filter((key) =>
+      key.startsWith(this.prefix) && !isReservedKey(key.slice(this.prefix.length))
+    );
   }
 
   defineGroup<TypeMap extends Record<string, unknown> = Record<string, unknown>>(
     group: { [K in keyof TypeMap]: string },
-  ): { [K in keyof TypeMap]: AsyncDefineResponse<TypeMap[K], SetConfig> } {
-    type Result = { [K in keyof TypeMap]: AsyncDefineResponse<TypeMap[K], SetConfig> };
-    return (Object.keys(group) as (keyof TypeMap)[]).reduce((prev, next) => ({
+    options?: { [K in keyof TypeMap]?: DefineOptions<TypeMap[K]> },
+  ): AsyncDefineGroupResponse<TypeMap, SetConfig> {
+    type Result = AsyncDefineGroupResponse<TypeMap, SetConfig>;
+    const aliases = Object.keys(group) as (keyof TypeMap)[];
+    const result = aliases.reduce((prev, next) => ({
       ...prev,
-      [next]: this.define(group[next]),
+      [next]: this.define(group[next], undefined, options?.[next]),
     }), {} as Result);
+    // non-enumerable, so iterating a group still only yields its defined keys
+    return Object.defineProperties(result, {
+      getAll: {
+        value: async () => {
+          const entries = await this.readEntries(aliases.map((alias) => group[alias]));
+          const values: [keyof TypeMap, unknown][] = [];
+          for (const [index, alias] of aliases.entries()) {
+            const [key, defaults] = [group[alias], options?.[alias]];
+            const value = await this.migrated(key, entries[index], defaults, {});
+            values.push([alias, await this.validated(key, value, defaults)]);
+          }
+          return Object.fromEntries(values);
+        },
+      },
+      setAll: {
+        value: (values: Partial<TypeMap>, config?: SetConfig, setOptions?: SetOptions) =>
+          this.writeEntries(
+            (Object.keys(values) as (keyof TypeMap)[]).map((alias) => {
+              const defaults = options?.[alias];
+              return [group[alias], values[alias], {
+                ...stickyOptions(defaults),
+                ...setOptions ?? defaults,
+              }];
+            }),
+            config,
+          ),
+      },
+    });
+  }
+
+  /**
+   * Defines a family of keys from a template such as `"draft:{id}"`. Every member shares the
+   * defaults; the family lists, reads and clears its stored members.
+   */
+  defineFamily<Params extends { [K in keyof Params]: string }, DefinedType = unknown>(
+    template: FamilyTemplate<Params>,
+    defaultConfig?: SetConfig,
+    defaultOptions?: DefineOptions<DefinedType>,
+  ): AsyncDefineFamilyResponse<Params, DefinedType, SetConfig> {
+    const keys = new KeyTemplate(template as string);
+    const members = async () =>
+      (await this.keys()).flatMap((key) => {
+        const params = keys.parse(key);
+        return params ? [[key, params as Params] as const] : [];
+      });
+    return Object.assign(
+      (params: Params) => this.define(keys.format(params), defaultConfig, defaultOptions),
+      {
+        template: template as string,
+        keys: async () => (await members()).map(([, params]) => params),
+        entries: async () => {
+          const found = await members();
+          const entries = await this.readEntries(found.map(([key]) => key));
+          const result: [Params, DefinedType][] = [];
+          for (const [index, [key, params]] of found.entries()) {
+            if (!entries[index]) continue;
+            const config = { config: defaultConfig };
+            const value = await this.migrated(key, entries[index], defaultOptions, config);
+            const validated = await this.validated<DefinedType>(key, value, defaultOptions);
+            if (validated !== null) result.push([params, validated]);
+          }
+          return result;
+        },
+        clearAll: async () => this.removeMany((await members()).map(([key]) => key)),
+      },
+    );
   }
 
   define<DefinedType = unknown>(
     key: string,
     defaultConfig?: SetConfig,
+    defaultOptions?: DefineOptions<DefinedType>,
   ): AsyncDefineResponse<DefinedType, SetConfig> {
-    return {
-      get: <T = DefinedType>(): Promise<T | null> => this.get<T>(key),
-      set: (value: DefinedType, config?: SetConfig) =>
-        this.set(key, value, config ?? defaultConfig),
+    const sticky = stickyOptions(defaultOptions);
+    const response: AsyncDefineResponse<DefinedType, SetConfig> = {
+      get: async <T = DefinedType>(): Promise<T | null> => {
+        const value = await this.migrated(key, await this.readEntry(key), defaultOptions, {
+          config: defaultConfig,
+        });
+        return this.validated<T>(key, value, defaultOptions);
+      },
+      getWithMeta: async <T = DefinedType>(): Promise<EntryWithMeta<T> | null> => {
+        const entry = await this.readEntry(key);
+        if (!entry) return null;
+        const migrated = await this.migrated(key, entry, defaultOptions, { config: defaultConfig });
+        const value = await this.validated<T>(key, migrated, defaultOptions);
+        return value === null ? null : { value, meta: withMeta(entry).meta };
+      },
+      set: (value: DefinedType, config?: SetConfig, options?: SetOptions) =>
+        this.set(key, value, config ?? defaultConfig, { ...sticky, ...options ?? defaultOptions }),
       remove: () => this.remove(key),
-      pop: <T = DefinedType>(): Promise<T | null> => this.pop<T>(key),
+      pop: async <T = DefinedType>(): Promise<T | null> => {
+        const entry = await this.readEntry(key);
+        await this.remove(key);
+        const value = await this.migrated(key, entry, defaultOptions);
+        return this.validated<T>(key, value, defaultOptions);
+      },
+      update: (updater, config, options) =>
+        this.exclusive(
+          key,
+          async () => response.set(await updater(await response.get()), config, options),
+        ),
+      subscribe: (listener: StorageListener<DefinedType>) => this.subscribe(key, listener),
+      size: () => this.itemBytes(this.prefix + key),
+      item: () => this.storedItem(this.prefix + key),
       key: this.prefix + key,
     };
+    return response;
+  }
+
+  /**
+   * Brings a defined key's entry up to its defined version, writing the migrated
+   * value back (with its expiry) when `writeBack` is set.
+   */
+  private async migrated(
+    key: string,
+    entry: StoredEntry | null,
+    options: DefineOptions<unknown> | undefined,
+    writeBack?: { config?: SetConfig },
+  ): Promise<unknown> {
+    if (!entry || !options) return storedValue(entry);
+    const { value, changed } = migrate(entry, options);
+    if (changed && writeBack) {
+      await this.set(key, value, writeBack.config, {
+        expiresAt: entry.expiresAt,
+        version: options.version,
+        tags: entry.tags,
+      });
+    }
+    return value ?? null;
+  }
+
+  private async validated<T>(
+    key: string,
+    value: unknown,
+    options?: DefineOptions<unknown>,
+  ): Promise<T | null> {
+    if (value === null) return (options?.defaultValue as T) ?? null;
+    if (!options?.validate) return value as T;
+    const result = await runValidator(options.validate, value);
+    const settled = settleValidation(this.prefix + key, value, result, options);
+    if (settled.invalid && options.removeInvalid) await this.remove(key);
+    return settled.value as T | null;
   }
 }
 
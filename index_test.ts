@@ -4,9 +4,26 @@ import {
   LocalStorage,
   MemoryStorageAdapter,
   SessionStorage,
+  StorageAdapterError,
+  StorageListenerError,
+  StorageParseError,
+  StorageQuotaError,
+  StorageSerializationError,
 } from "./index.ts";
-import type { Adapter, AsyncAdapter, Serializer } from "./index.ts";
-import { assertEquals, assertThrows } from "@std/assert";
+import type {
+  Adapter,
+  AsyncAdapter,
+  CommitOperation,
+  InvalidValueEvent,
+  MetadataFilter,
+  Serializer,
+  StandardSchemaV1,
+  StorageChange,
+  StorageError,
+  StorageErrorContext,
+  StorageSnapshot,
+} from "./index.ts";
+import { assertEquals, assertInstanceOf, assertRejects, assertThrows } from "@std/assert";
 
 Deno.test("locale storage spec", async (t) => {
   await t.step("can set and remove values", () => {
@@ -124,6 +141,103 @@ Deno.test("async browser storage", async (t) => {
   });
 });
 
+Deno.test("async cache policies", async (t) => {
+  class CountingAdapter implements AsyncAdapter {
+    storage = new MemoryStorageAdapter();
+    reads = 0;
+    writes = 0;
+    getItem(key: string): Promise<string | null> {
+      this.reads++;
+      return Promise.resolve(this.storage.getItem(key));
+    }
+    setItem(key: string, value: string): Promise<void> {
+      this.writes++;
+      this.storage.setItem(key, value);
+      return Promise.resolve();
+    }
+    removeItem(key: string): Promise<void> {
+      this.storage.removeItem(key);
+      return Promise.resolve();
+    }
+    keys(): Promise<string[]> {
+      return Promise.resolve([...this.storage.entries()].map(([key]) => key));
+    }
+  }
+
+  await t.step("read-through serves repeated reads from memory", async () => {
+    const adapter = new CountingAdapter();
+    const storage = new AsyncBrowserStorage({ adapter, cache: "read-through", prefix: "app__" });
+    await storage.set("one", "hello world");
+
+    assertEquals(await storage.get("one"), "hello world");
+    assertEquals(await storage.get("one"), "hello world");
+    assertEquals(adapter.reads, 1);
+    assertEquals(storage.getCache("one"), '"hello world"');
+
+    await storage.set("one", "changed");
+    assertEquals(storage.getCache("one"), null);
+    assertEquals(await storage.get("one"), "changed");
+    assertEquals(adapter.reads, 2);
+  });
+
+  await t.step("write-through keeps the cache warm on writes", async () => {
+    const adapter = new CountingAdapter();
+    const storage = new AsyncBrowserStorage({ adapter, cache: "write-through" });
+    await storage.set("one", "hello world");
+
+    assertEquals(await storage.get("one"), "hello world");
+    assertEquals(adapter.reads, 0);
+    assertEquals(adapter.writes, 1);
+
+    await storage.remove("one");
+    assertEquals(await storage.get("one"), null);
+    assertEquals(adapter.reads, 1);
+  });
+
+  await t.step("write-behind defers writes until flush", async () => {
+    const adapter = new CountingAdapter();
+    const storage = new AsyncBrowserStorage({ adapter, cache: "write-behind", prefix: "app__" });
+    adapter.storage.setItem("app__gone", '"x"');
+
+    await storage.set("one", 1);
+    await storage.set("one", 2);
+    await storage.remove("gone");
+    assertEquals(await storage.get("one"), 2);
+    assertEquals(await storage.get("gone"), null);
+    assertEquals(adapter.writes, 0);
+    assertEquals(adapter.storage.getItem("app__gone"), '"x"');
+
+    await storage.flush();
+    assertEquals(adapter.writes, 1);
+    assertEquals(adapter.storage.getItem("app__one"), "2");
+    assertEquals(adapter.storage.getItem("app__gone"), null);
+  });
+
+  await t.step("write-behind flushes on its interval", async () => {
+    const adapter = new CountingAdapter();
+    const storage = new AsyncBrowserStorage({ adapter, cache: "write-behind", flushInterval: 1 });
+
+    await storage.set("one", 1);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    assertEquals(adapter.storage.getItem("one"), "1");
+  });
+
+  await t.step("clear invalidates the cache and pending writes", async () => {
+    const adapter = new CountingAdapter();
+    const storage = new AsyncBrowserStorage({ adapter, cache: "write-behind", prefix: "app__" });
+    await storage.set("one", 1);
+    await storage.flush();
+    await storage.set("two", 2);
+
+    await storage.clear();
+
+    assertEquals(await storage.get("one"), null);
+    assertEquals(await storage.get("two"), null);
+    assertEquals(adapter.storage.length, 0);
+  });
+});
+
 Deno.test("symmetric serialization", async (t) => {
   await t.step("strings round-trip without being reinterpreted", () => {
     const storage = new BrowserStorage();
@@ -156,6 +270,24 @@ Deno.test("symmetric serialization", async (t) => {
     assertEquals(storage.get("zero"), 0);
     assertEquals(storage.get("actualNull"), null);
   });
+
+  await t.step("values holding the envelope marker round-trip as themselves", async () => {
+    const value = { __bs: 1, value: "inner", other: 2 };
+    const storage = new BrowserStorage();
+    storage.set("obj", value);
+    assertEquals(storage.get("obj"), value);
+
+    const items = new MemoryStorageAdapter();
+    const asyncStorage = new AsyncBrowserStorage({
+      adapter: {
+        getItem: (key) => Promise.resolve(items.getItem(key)),
+        setItem: (key, value) => Promise.resolve(items.setItem(key, value)),
+        removeItem: (key) => Promise.resolve(items.removeItem(key)),
+      },
+    });
+    await asyncStorage.set("obj", value);
+    assertEquals(await asyncStorage.get("obj"), value);
+  });
 });
 
 Deno.test("prefix-scoped clear", async (t) => {
@@ -226,6 +358,755 @@ Deno.test("prefix-scoped clear", async (t) => {
   });
 });
 
+Deno.test("namespaces", async (t) => {
+  await t.step("children share the adapter under a composed prefix", () => {
+    const adapter = new MemoryStorageAdapter();
+    const storage = new BrowserStorage({ prefix: "app__", adapter, serializer: JSON });
+    const feature = storage.namespace("feature", { separator: "__" });
+    const nested = feature.namespace("drafts", { separator: "__" });
+    feature.set("token", "abc");
+    nested.set("one", 1);
+
+    assertEquals(feature.prefix, "app__feature__");
+    assertEquals(nested.prefix, "app__feature__drafts__");
+    assertEquals(feature.adapter, adapter);
+    assertEquals(feature.serializer, storage.serializer);
+    assertEquals(adapter.getItem("app__feature__token"), '"abc"');
+    assertEquals(storage.get("feature__token"), "abc");
+  });
+
+  await t.step("clear() only touches the namespace's own subtree", () => {
+    const storage = new BrowserStorage({ prefix: "app:" });
+    const feature = storage.namespace("feature");
+    const other = storage.namespace("featured");
+    storage.set("root", 1);
+    feature.set("one", 1);
+    feature.namespace("deep").set("two", 2);
+    other.set("three", 3);
+
+    feature.clear();
+
+    assertEquals(storage.keys().sort(), ["featured:three", "root"]);
+  });
+
+  await t.step("lists child namespaces that hold keys", async () => {
+    const storage = new BrowserStorage({ prefix: "app:" });
+    storage.namespace("feature").set("one", 1);
+    storage.namespace("profile").set("two", 2);
+    storage.set("root", 3);
+
+    assertEquals(storage.namespaces(), ["feature", "profile"]);
+    assertEquals(storage.namespace("feature").namespaces(), []);
+
+    const adapter: AsyncAdapter & { storage: MemoryStorageAdapter } = {
+      storage: new MemoryStorageAdapter(),
+      getItem: (key) => Promise.resolve(adapter.storage.getItem(key)),
+      setItem: (key, value) => Promise.resolve(adapter.storage.setItem(key, value)),
+      removeItem: (key) => Promise.resolve(adapter.storage.removeItem(key)),
+      keys: () => Promise.resolve(Array.from(adapter.storage.entries(), ([key]) => key)),
+    };
+    const asyncStorage = new AsyncBrowserStorage({ adapter, prefix: "app:" });
+    const cart = asyncStorage.namespace("cart");
+    await cart.set("items", ["apple"]);
+    await asyncStorage.set("root", 1);
+
+    assertEquals(await asyncStorage.namespaces(), ["cart"]);
+    await cart.clear();
+    assertEquals(await asyncStorage.keys(), ["root"]);
+  });
+
+  await t.step("lists only namespaces, not other keys holding the separator", () => {
+    const storage = new BrowserStorage({ prefix: "app:" });
+    storage.set("user:1", "Jane");
+    storage.defineFamily<{ id: string }>("draft:{id}")({ id: "1" }).set("text");
+    storage.namespace("empty");
+    storage.namespace("feature").set("one", 1);
+
+    assertEquals(storage.namespaces(), ["feature"]);
+  });
+
+  await t.step("async children share the parent's cache and pending writes", async () => {
+    const adapter: AsyncAdapter & { storage: MemoryStorageAdapter } = {
+      storage: new MemoryStorageAdapter(),
+      getItem: (key) => Promise.resolve(adapter.storage.getItem(key)),
+      setItem: (key, value) => Promise.resolve(adapter.storage.setItem(key, value)),
+      removeItem: (key) => Promise.resolve(adapter.storage.removeItem(key)),
+      keys: () => Promise.resolve(Array.from(adapter.storage.entries(), ([key]) => key)),
+    };
+    const behind = new AsyncBrowserStorage({ adapter, prefix: "app:", cache: "write-behind" });
+    const drafts = behind.namespace("drafts");
+    await drafts.set("k", 1);
+    assertEquals(await behind.keys(), ["drafts:k"]);
+    await behind.clear();
+    await drafts.flush();
+    assertEquals(adapter.storage.getItem("app:drafts:k"), null);
+
+    const through = new AsyncBrowserStorage({ adapter, prefix: "app:", cache: "read-through" });
+    const feature = through.namespace("feature");
+    await feature.set("k", 1);
+    assertEquals(await feature.get("k"), 1);
+    await through.clear();
+    assertEquals(await feature.get("k"), null);
+  });
+
+  await t.step("rejects names and prefixes that would overlap", () => {
+    const storage = new BrowserStorage({ prefix: "app:" });
+    storage.namespace("feature", { separator: "_" });
+
+    assertThrows(() => storage.namespace("feature_x"), TypeError, "overlaps");
+    assertThrows(() => storage.namespace("a:b"), TypeError, "Invalid namespace name");
+    assertThrows(() => storage.namespace(""), TypeError, "Invalid namespace name");
+    assertEquals(storage.namespace("feature", { separator: "_" }).prefix, "app:feature_");
+  });
+});
+
+Deno.test("enumeration", async (t) => {
+  await t.step("lists keys, values and entries under the prefix", () => {
+    const adapter = new MemoryStorageAdapter();
+    adapter.setItem("other__skip", '"x"');
+    const storage = new BrowserStorage({ prefix: "app__", adapter });
+    storage.set("one", 1);
+    storage.set("two", { a: 2 });
+    storage.set("stale", 3, undefined, { ttl: -1 });
+
+    assertEquals(storage.keys(), ["one", "two", "stale"]);
+    assertEquals(storage.size(), 3);
+    assertEquals(storage.values(), [1, { a: 2 }]);
+    assertEquals(storage.entries(), [["one", 1], ["two", { a: 2 }]]);
+    assertEquals([...storage], [["one", 1], ["two", { a: 2 }]]);
+    assertEquals(storage.size(), 2);
+  });
+
+  await t.step("has checks for a live value", () => {
+    const storage = new BrowserStorage();
+    storage.set("one", null);
+    storage.set("stale", 1, undefined, { ttl: -1 });
+
+    assertEquals(storage.has("one"), true);
+    assertEquals(storage.has("stale"), false);
+    assertEquals(storage.has("missing"), false);
+  });
+
+  await t.step("throws when the adapter can't enumerate", () => {
+    const adapter: Adapter = { getItem: () => null, setItem: () => {}, removeItem: () => {} };
+    const storage = new BrowserStorage({ adapter });
+
+    assertThrows(() => storage.keys(), Error, "keys() requires");
+    assertThrows(() => storage.entries(), Error, "keys() requires");
+  });
+
+  await t.step("async storage enumerates and iterates", async () => {
+    const adapter = new MemoryStorageAdapter();
+    const storage = new AsyncBrowserStorage({
+      adapter: {
+        getItem: (key) => Promise.resolve(adapter.getItem(key)),
+        setItem: (key, value) => Promise.resolve(adapter.setItem(key, value)),
+        removeItem: (key) => Promise.resolve(adapter.removeItem(key)),
+        keys: () => Promise.resolve([...adapter.entries()].map(([key]) => key)),
+      },
+      prefix: "app__",
+    });
+    adapter.setItem("other__skip", '"x"');
+    await storage.set("one", 1);
+    await storage.set("two", 2);
+
+    assertEquals(await storage.keys(), ["one", "two"]);
+    assertEquals(await storage.values(), [1, 2]);
+    assertEquals(await storage.entries(), [["one", 1], ["two", 2]]);
+    assertEquals(await storage.has("one"), true);
+    assertEquals(await storage.size(), 2);
+
+    const seen: string[] = [];
+    for await (const [key] of storage) seen.push(key);
+    assertEquals(seen, ["one", "two"]);
+  });
+});
+
+Deno.test("batch operations", async (t) => {
+  await t.step("getMany, setMany and removeMany fall back to per-key calls", () => {
+    const adapter = new MemoryStorageAdapter();
+    const storage = new BrowserStorage({ prefix: "app__", adapter });
+
+    assertEquals(storage.setMany({ one: 1, two: "two" }), true);
+    assertEquals(adapter.getItem("app__two"), '"two"');
+    assertEquals(storage.getMany(["one", "two", "three"]), { one: 1, two: "two", three: null });
+
+    storage.removeMany(["one", "two"]);
+    assertEquals(adapter.length, 0);
+  });
+
+  await t.step("adapter batch hooks are used when provided", () => {
+    const calls: string[] = [];
+    class BatchAdapter extends MemoryStorageAdapter {
+      getItems(keys: string[]): (string | null)[] {
+        calls.push(`get ${keys}`);
+        return keys.map((key) => this.getItem(key));
+      }
+      setItems(items: Record<string, string>): void {
+        calls.push(`set ${Object.keys(items)}`);
+        for (const [key, value] of Object.entries(items)) this.setItem(key, value);
+      }
+      removeItems(keys: string[]): void {
+        calls.push(`remove ${keys}`);
+        for (const key of keys) this.removeItem(key);
+      }
+    }
+    const storage = new BrowserStorage({ adapter: new BatchAdapter() });
+
+    storage.setMany({ one: 1, two: 2 });
+    storage.getMany(["one", "two"]);
+    storage.removeMany(["one", "two"]);
+
+    assertEquals(calls, ["set one,two", "get one,two", "remove one,two"]);
+  });
+
+  await t.step("setMany returns false when a write fails", () => {
+    class ThrowingAdapter extends MemoryStorageAdapter {
+      override setItem(key: string, value: string): void {
+        if (key === "two") throw new Error("quota exceeded");
+        super.setItem(key, value);
+      }
+    }
+    const storage = new BrowserStorage({ adapter: new ThrowingAdapter() });
+    assertEquals(storage.setMany({ one: 1, two: 2 }), false);
+  });
+
+  await t.step("defineGroup reads and writes the whole group", () => {
+    const storage = new BrowserStorage({ prefix: "app__" });
+    const GROUP = storage.defineGroup<{ token: string; user: { email: string } }>(
+      { token: "jti", user: "u" },
+      { token: { defaultValue: "anonymous" } },
+    );
+
+    assertEquals(GROUP.getAll(), { token: "anonymous", user: null });
+    GROUP.setAll({ token: "abc", user: { email: "jason@example.com" } });
+    assertEquals(GROUP.getAll(), { token: "abc", user: { email: "jason@example.com" } });
+    assertEquals(storage.get("u"), { email: "jason@example.com" });
+    assertEquals(Object.keys(GROUP), ["token", "user"]);
+  });
+
+  await t.step("async batch operations go through the cache", async () => {
+    const calls: string[] = [];
+    const adapter = new MemoryStorageAdapter();
+    const storage = new AsyncBrowserStorage({
+      adapter: {
+        getItem: (key) => Promise.resolve(adapter.getItem(key)),
+        setItem: (key, value) => Promise.resolve(adapter.setItem(key, value)),
+        removeItem: (key) => Promise.resolve(adapter.removeItem(key)),
+        getItems: (keys) => {
+          calls.push(`get ${keys}`);
+          return Promise.resolve(keys.map((key) => adapter.getItem(key)));
+        },
+      },
+      cache: "read-through",
+    });
+    const GROUP = storage.defineGroup<{ token: string; user: string }>({ token: "jti", user: "u" });
+
+    assertEquals(await GROUP.setAll({ token: "abc", user: "jason" }), true);
+    assertEquals(await GROUP.getAll(), { token: "abc", user: "jason" });
+    assertEquals(await storage.getMany(["jti", "u"]), { jti: "abc", u: "jason" });
+    assertEquals(calls, ["get jti,u"]);
+
+    await storage.removeMany(["jti"]);
+    assertEquals(await storage.getMany(["jti", "u"]), { jti: null, u: "jason" });
+    assertEquals(calls, ["get jti,u", "get jti"]);
+  });
+
+  await t.step("async batch reads fill every slot of a repeated key", async () => {
+    const adapter = new MemoryStorageAdapter();
+    const storage = new AsyncBrowserStorage({
+      adapter: {
+        getItem: (key) => Promise.resolve(adapter.getItem(key)),
+        setItem: (key, value) => Promise.resolve(adapter.setItem(key, value)),
+        removeItem: (key) => Promise.resolve(adapter.removeItem(key)),
+      },
+    });
+    await storage.set("a", 1);
+
+    assertEquals(await storage.getMany(["a", "a"]), { a: 1 });
+    assertEquals(await storage.defineGroup({ x: "a", y: "a" }).getAll(), { x: 1, y: 1 });
+  });
+});
+
+Deno.test("updates", async (t) => {
+  class SlowAdapter implements AsyncAdapter {
+    storage = new MemoryStorageAdapter();
+    private delay = () => new Promise((resolve) => setTimeout(resolve, 1));
+    async getItem(key: string): Promise<string | null> {
+      await this.delay();
+      return this.storage.getItem(key);
+    }
+    async setItem(key: string, value: string): Promise<void> {
+      await this.delay();
+      this.storage.setItem(key, value);
+    }
+    async removeItem(key: string): Promise<void> {
+      await this.delay();
+      this.storage.removeItem(key);
+    }
+  }
+
+  await t.step("update writes the updater's result and keeps the expiry", () => {
+    const adapter = new MemoryStorageAdapter();
+    const storage = new BrowserStorage({ adapter });
+    storage.set("count", 1, undefined, { expiresAt: 4_102_444_800_000 });
+
+    assertEquals(storage.update<number>("count", (count) => (count ?? 0) + 1), true);
+    assertEquals(storage.get("count"), 2);
+    assertEquals(JSON.parse(adapter.getItem("count")!).expiresAt, 4_102_444_800_000);
+
+    storage.update<number[]>("list", (list) => [...list ?? [], 1]);
+    assertEquals(storage.get("list"), [1]);
+  });
+
+  await t.step("compareAndSet only writes over the expected value", () => {
+    const storage = new BrowserStorage();
+    storage.set("user", { version: 1 });
+
+    assertEquals(storage.compareAndSet("user", { version: 2 }, { version: 3 }), false);
+    assertEquals(storage.compareAndSet("user", { version: 1 }, { version: 2 }), true);
+    assertEquals(storage.get("user"), { version: 2 });
+    assertEquals(storage.compareAndSet("missing", null, "created"), true);
+  });
+
+  await t.step("defined keys update through their validation", () => {
+    const storage = new BrowserStorage();
+    const COUNT = storage.define<number>("count", undefined, { defaultValue: 10 });
+
+    COUNT.update((count) => count! + 1);
+    assertEquals(COUNT.get(), 11);
+  });
+
+  await t.step("concurrent async updates are serialized per key", async () => {
+    const storage = new AsyncBrowserStorage({ adapter: new SlowAdapter() });
+    const COUNT = storage.define<number>("count");
+
+    await Promise.all([
+      ...Array.from({ length: 5 }, () => storage.update<number>("count", (n) => (n ?? 0) + 1)),
+      ...Array.from({ length: 5 }, () => COUNT.update((n) => Promise.resolve((n ?? 0) + 1))),
+    ]);
+
+    assertEquals(await COUNT.get(), 10);
+  });
+
+  await t.step("a failing updater does not block the queue", async () => {
+    const storage = new AsyncBrowserStorage({ adapter: new SlowAdapter() });
+
+    const failed = storage.update("count", () => {
+      throw new Error("nope");
+    });
+    const next = storage.update<number>("count", (n) => (n ?? 0) + 1);
+
+    await assertRejects(() => failed);
+    assertEquals(await next, true);
+    assertEquals(await storage.get("count"), 1);
+  });
+
+  await t.step("async compareAndSet can use cross-tab locks", async () => {
+    const storage = new AsyncBrowserStorage({ adapter: new SlowAdapter(), crossTabLocks: true });
+    await storage.set("token", "a");
+
+    const results = await Promise.all([
+      storage.compareAndSet("token", "a", "b"),
+      storage.compareAndSet("token", "a", "c"),
+    ]);
+
+    assertEquals(results, [true, false]);
+    assertEquals(await storage.get("token"), "b");
+  });
+});
+
+Deno.test("expiry", async (t) => {
+  await t.step("values without a ttl are stored as before", () => {
+    const adapter = new MemoryStorageAdapter();
+    const storage = new BrowserStorage({ adapter });
+    storage.set("one", "hello world");
+    assertEquals(adapter.getItem("one"), '"hello world"');
+  });
+
+  await t.step("values read back until they expire", () => {
+    const adapter = new MemoryStorageAdapter();
+    const storage = new BrowserStorage({ adapter });
+    storage.set("fresh", { a: 1 }, undefined, { ttl: 60_000 });
+    storage.set("stale", { a: 1 }, undefined, { expiresAt: Date.now() - 1 });
+
+    assertEquals(storage.get("fresh"), { a: 1 });
+    assertEquals(storage.get("stale"), null);
+    assertEquals(adapter.getItem("stale"), null);
+  });
+
+  await t.step("pop returns null for an expired value", () => {
+    const storage = new BrowserStorage();
+    storage.set("stale", "x", undefined, { expiresAt: new Date(Date.now() - 1) });
+    assertEquals(storage.pop("stale"), null);
+  });
+
+  await t.step("define applies its default options", () => {
+    const storage = new BrowserStorage();
+    const TOKEN = storage.define<string>("token", undefined, { ttl: -1 });
+
+    TOKEN.set("abc");
+    assertEquals(TOKEN.get(), null);
+
+    TOKEN.set("abc", undefined, { ttl: 60_000 });
+    assertEquals(TOKEN.get(), "abc");
+  });
+
+  await t.step("purgeExpired only removes stale keys under the prefix", () => {
+    const adapter = new MemoryStorageAdapter();
+    const other = new BrowserStorage({ prefix: "other__", adapter });
+    other.set("stale", "x", undefined, { ttl: -1 });
+    const storage = new BrowserStorage({ prefix: "app__", adapter });
+    storage.set("stale", "x", undefined, { ttl: -1 });
+    storage.set("fresh", "y", undefined, { ttl: 60_000 });
+    storage.set("forever", "z");
+
+    assertEquals(storage.purgeExpired(), 1);
+    assertEquals(adapter.getItem("app__stale"), null);
+    assertEquals(storage.get("fresh"), "y");
+    assertEquals(storage.get("forever"), "z");
+    assertEquals(adapter.getItem("other__stale") !== null, true);
+  });
+
+  await t.step("async values expire and purge", async () => {
+    const adapter = new MemoryStorageAdapter();
+    const storage = new AsyncBrowserStorage({
+      adapter: {
+        getItem: (key) => Promise.resolve(adapter.getItem(key)),
+        setItem: (key, value) => Promise.resolve(adapter.setItem(key, value)),
+        removeItem: (key) => Promise.resolve(adapter.removeItem(key)),
+        keys: () => Promise.resolve([...adapter.entries()].map(([key]) => key)),
+      },
+    });
+    await storage.set("stale", "x", undefined, { ttl: -1 });
+    await storage.set("fresh", "y", undefined, { ttl: 60_000 });
+    await storage.set("other", "z", undefined, { ttl: -1 });
+
+    assertEquals(await storage.get("stale"), null);
+    assertEquals(await storage.purgeExpired(), 1);
+    assertEquals(await storage.get("fresh"), "y");
+    assertEquals(adapter.length, 1);
+  });
+});
+
+Deno.test("validation", async (t) => {
+  type User = { email: string };
+  const isUser = (value: unknown): value is User =>
+    typeof value === "object" && value !== null && typeof (value as User).email === "string";
+  const userSchema: StandardSchemaV1<unknown, User> = {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: (value) =>
+        isUser(value) ? { value } : { issues: [{ message: "expected a user", path: ["email"] }] },
+    },
+  };
+
+  await t.step("a type guard rejects tampered values", () => {
+    const storage = new BrowserStorage();
+    const USER = storage.define<User>("user", undefined, { validate: isUser });
+
+    storage.set("user", { name: "not a user" });
+    assertEquals(USER.get(), null);
+
+    USER.set({ email: "jason@example.com" });
+    assertEquals(USER.get(), { email: "jason@example.com" });
+  });
+
+  await t.step("a standard schema reports issues and falls back to the default", () => {
+    const events: InvalidValueEvent[] = [];
+    const storage = new BrowserStorage({ prefix: "app__" });
+    const USER = storage.define<User>("user", undefined, {
+      validate: userSchema,
+      defaultValue: { email: "guest@example.com" },
+      onInvalid: (event) => events.push(event),
+    });
+
+    assertEquals(USER.get(), { email: "guest@example.com" });
+    assertEquals(events.length, 0);
+
+    storage.set("user", 42);
+    assertEquals(USER.get(), { email: "guest@example.com" });
+    assertEquals(events, [{
+      key: "app__user",
+      value: 42,
+      issues: [{ message: "expected a user", path: ["email"] }],
+    }]);
+    assertEquals(storage.get("user"), 42);
+  });
+
+  await t.step("removeInvalid drops the bad entry", () => {
+    const storage = new BrowserStorage();
+    const USER = storage.define<User>("user", undefined, { validate: isUser, removeInvalid: true });
+
+    storage.set("user", "garbage");
+    assertEquals(USER.pop(), null);
+    storage.set("user", "garbage");
+    assertEquals(USER.get(), null);
+    assertEquals(storage.get("user"), null);
+  });
+
+  await t.step("defineGroup accepts per-key options", () => {
+    const storage = new BrowserStorage();
+    const GROUP = storage.defineGroup<{ user: User; token: string }>(
+      { user: "user_info", token: "jti" },
+      { user: { validate: isUser }, token: { defaultValue: "anonymous" } },
+    );
+
+    storage.set("user_info", "garbage");
+    assertEquals(GROUP.user.get(), null);
+    assertEquals(GROUP.token.get(), "anonymous");
+  });
+
+  await t.step("sync storage rejects asynchronous schemas", () => {
+    const storage = new BrowserStorage();
+    const USER = storage.define<User>("user", undefined, {
+      validate: {
+        "~standard": {
+          ...userSchema["~standard"],
+          validate: () => Promise.resolve({ value: { email: "" } }),
+        },
+      },
+    });
+    storage.set("user", { email: "jason@example.com" });
+
+    assertThrows(() => USER.get(), TypeError);
+  });
+
+  await t.step("async storage awaits asynchronous schemas", async () => {
+    const adapter = new MemoryStorageAdapter();
+    const storage = new AsyncBrowserStorage({
+      adapter: {
+        getItem: (key) => Promise.resolve(adapter.getItem(key)),
+        setItem: (key, value) => Promise.resolve(adapter.setItem(key, value)),
+        removeItem: (key) => Promise.resolve(adapter.removeItem(key)),
+      },
+    });
+    const USER = storage.define<User>("user", undefined, {
+      validate: {
+        "~standard": {
+          ...userSchema["~standard"],
+          validate: (value) => Promise.resolve(userSchema["~standard"].validate(value)),
+        },
+      },
+      removeInvalid: true,
+    });
+
+    await storage.set("user", { email: "jason@example.com" });
+    assertEquals(await USER.get(), { email: "jason@example.com" });
+
+    await storage.set("user", ["garbage"]);
+    assertEquals(await USER.get(), null);
+    assertEquals(adapter.getItem("user"), null);
+  });
+});
+
+Deno.test("subscriptions", async (t) => {
+  await t.step("set, remove and pop notify key subscribers", () => {
+    const storage = new BrowserStorage({ prefix: "app__" });
+    const changes: StorageChange<string>[] = [];
+    storage.set("one", "before");
+    storage.subscribe<string>("one", (change) => changes.push(change));
+
+    storage.set("one", "after");
+    storage.remove("one");
+    storage.set("one", "again");
+    storage.pop("one");
+    storage.set("two", "ignored");
+
+    assertEquals(changes, [
+      { key: "one", oldValue: "before", newValue: "after", source: "local" },
+      { key: "one", oldValue: "after", newValue: null, source: "local" },
+      { key: "one", oldValue: null, newValue: "again", source: "local" },
+      { key: "one", oldValue: "again", newValue: null, source: "local" },
+    ]);
+  });
+
+  await t.step("a throwing listener fails neither the write nor the other listeners", async () => {
+    const errors: [StorageError, StorageErrorContext][] = [];
+    const storage = new BrowserStorage({ onError: (...report) => errors.push(report) });
+    const heard: unknown[] = [];
+    storage.subscribe("one", () => {
+      throw new Error("listener boom");
+    });
+    storage.onChange(({ newValue }) => heard.push(newValue));
+
+    assertEquals(storage.set("one", 1), true);
+    assertEquals(storage.get("one"), 1);
+    assertEquals(heard, [1]);
+    assertInstanceOf(errors[0][0], StorageListenerError);
+    assertEquals((errors[0][0].cause as Error).message, "listener boom");
+    assertEquals(errors[0][1], { operation: "notify", key: "one" });
+
+    const items = new MemoryStorageAdapter();
+    const asyncStorage = new AsyncBrowserStorage({
+      adapter: {
+        getItem: (key) => Promise.resolve(items.getItem(key)),
+        setItem: (key, value) => Promise.resolve(items.setItem(key, value)),
+        removeItem: (key) => Promise.resolve(items.removeItem(key)),
+      },
+      onError: (...report) => errors.push(report),
+    });
+    asyncStorage.subscribe("one", () => {
+      throw new Error("listener boom");
+    });
+    asyncStorage.onChange(({ newValue }) => heard.push(newValue));
+    assertEquals(await asyncStorage.set("one", 2), true);
+    assertEquals(heard, [1, 2]);
+    assertEquals(errors.length, 2);
+  });
+
+  await t.step("onChange hears every key and clear()", () => {
+    const adapter = new MemoryStorageAdapter();
+    adapter.setItem("other__keep", '"x"');
+    const storage = new BrowserStorage({ prefix: "app__", adapter });
+    const keys: string[] = [];
+    const unsubscribe = storage.onChange(({ key, newValue }) => keys.push(`${key}=${newValue}`));
+
+    storage.set("one", 1);
+    storage.set("two", 2);
+    storage.clear();
+    unsubscribe();
+    storage.set("three", 3);
+
+    assertEquals(keys, ["one=1", "two=2", "one=null", "two=null"]);
+  });
+
+  await t.step("an unprefixed clear() notifies subscribers", () => {
+    const storage = new BrowserStorage();
+    const changes: unknown[] = [];
+    storage.set("one", 1);
+    storage.subscribe("one", ({ oldValue, newValue }) => changes.push([oldValue, newValue]));
+
+    storage.clear();
+
+    assertEquals(changes, [[1, null]]);
+  });
+
+  await t.step("defined keys can be subscribed to", () => {
+    const storage = new BrowserStorage();
+    const TOKEN = storage.define<string>("token");
+    const values: (string | null)[] = [];
+    const unsubscribe = TOKEN.subscribe(({ newValue }) => values.push(newValue));
+
+    TOKEN.set("abc");
+    unsubscribe();
+    TOKEN.set("def");
+
+    assertEquals(values, ["abc"]);
+  });
+
+  await t.step("storage events from other tabs reach listeners", () => {
+    const storage = new LocalStorage({ prefix: "app__" });
+    if (!(storage.adapter instanceof Storage)) return;
+    const changes: StorageChange[] = [];
+    const unsubscribe = storage.onChange((change) => changes.push(change));
+    const dispatch = (key: string | null, oldValue: string | null, newValue: string | null) =>
+      globalThis.dispatchEvent(
+        Object.assign(new Event("storage"), { key, oldValue, newValue, storageArea: localStorage }),
+      );
+
+    dispatch("app__token", null, '"abc"');
+    dispatch("other__token", null, '"abc"');
+    dispatch("app____bs_eviction__", null, "{}");
+    unsubscribe();
+    dispatch("app__token", '"abc"', null);
+
+    assertEquals(changes, [{ key: "token", oldValue: null, newValue: "abc", source: "external" }]);
+  });
+
+  await t.step("async storage notifies listeners", async () => {
+    const adapter = new MemoryStorageAdapter();
+    const storage = new AsyncBrowserStorage({
+      adapter: {
+        getItem: (key) => Promise.resolve(adapter.getItem(key)),
+        setItem: (key, value) => Promise.resolve(adapter.setItem(key, value)),
+        removeItem: (key) => Promise.resolve(adapter.removeItem(key)),
+        keys: () => Promise.resolve([...adapter.entries()].map(([key]) => key)),
+      },
+      prefix: "app__",
+    });
+    const TOKEN = storage.define<string>("token");
+    const changes: unknown[] = [];
+    TOKEN.subscribe(({ oldValue, newValue }) => changes.push([oldValue, newValue]));
+
+    await TOKEN.set("abc");
+    await storage.clear();
+
+    assertEquals(changes, [[null, "abc"], ["abc", null]]);
+  });
+});
+
+Deno.test("versioned values", async (t) => {
+  type UserV2 = { email: string; name: string };
+  const migrations = {
+    1: (value: string) => ({ mail: value }),
+    2: (value: { mail: string }) => ({ email: value.mail, name: "unknown" }),
+  };
+
+  await t.step("unversioned values run the whole chain and are written back", () => {
+    const adapter = new MemoryStorageAdapter();
+    const storage = new BrowserStorage({ adapter });
+    storage.set("user", "jason@example.com");
+    const USER = storage.define<UserV2>("user", undefined, { version: 2, migrations });
+
+    assertEquals(USER.get(), { email: "jason@example.com", name: "unknown" });
+    assertEquals(JSON.parse(adapter.getItem("user")!), {
+      __bs: 1,
+      value: { email: "jason@example.com", name: "unknown" },
+      version: 2,
+    });
+  });
+
+  await t.step("values resume from their stored version", () => {
+    const storage = new BrowserStorage();
+    storage.set("user", { mail: "jason@example.com" }, undefined, { version: 1 });
+    const USER = storage.define<UserV2>("user", undefined, { version: 2, migrations });
+
+    assertEquals(USER.get(), { email: "jason@example.com", name: "unknown" });
+  });
+
+  await t.step("values written through define carry the version", () => {
+    const storage = new BrowserStorage();
+    const USER = storage.define<UserV2>("user", undefined, { version: 2, migrations });
+
+    USER.set({ email: "jason@example.com", name: "Jason" }, undefined, { ttl: 60_000 });
+    assertEquals(USER.get(), { email: "jason@example.com", name: "Jason" });
+    assertEquals(storage.get("user"), { email: "jason@example.com", name: "Jason" });
+  });
+
+  await t.step("migrated values pass through validation", () => {
+    const storage = new BrowserStorage();
+    storage.set("user", "jason@example.com");
+    const USER = storage.define<UserV2>("user", undefined, {
+      version: 2,
+      migrations,
+      validate: (value): value is UserV2 => (value as UserV2).name !== "unknown",
+    });
+
+    assertEquals(USER.get(), null);
+  });
+
+  await t.step("async pop migrates without writing back", async () => {
+    const adapter = new MemoryStorageAdapter();
+    const storage = new AsyncBrowserStorage({
+      adapter: {
+        getItem: (key) => Promise.resolve(adapter.getItem(key)),
+        setItem: (key, value) => Promise.resolve(adapter.setItem(key, value)),
+        removeItem: (key) => Promise.resolve(adapter.removeItem(key)),
+      },
+    });
+    const USER = storage.define<UserV2>("user", undefined, { version: 2, migrations });
+
+    await storage.set("user", "jason@example.com");
+    assertEquals(await USER.get(), { email: "jason@example.com", name: "unknown" });
+
+    await storage.set("user", "hermione@hogwarts.com");
+    assertEquals(await USER.pop(), { email: "hermione@hogwarts.com", name: "unknown" });
+    assertEquals(adapter.getItem("user"), null);
+  });
+});
+
 Deno.test("browser storage spec", async (t) => {
   await t.step("can set and remove values", () => {
     const storage = new BrowserStorage();
@@ -311,6 +1192,810 @@ Deno.test("browser storage spec", async (t) => {
   });
 });
 
+Deno.test("error reporting", async (t) => {
+  class QuotaAdapter extends MemoryStorageAdapter {
+    override setItem(): void {
+      throw new DOMException("The quota has been exceeded.", "QuotaExceededError");
+    }
+  }
+
+  await t.step("write failures reach onError with a typed error", () => {
+    const reported: [StorageError, StorageErrorContext][] = [];
+    const onError = (error: StorageError, context: StorageErrorContext) =>
+      reported.push([error, context]);
+
+    const full = new BrowserStorage({ adapter: new QuotaAdapter(), onError });
+    assertEquals(full.set("one", "value"), false);
+
+    const broken = new BrowserStorage({
+      adapter: {
+        getItem: () => null,
+        removeItem: () => {},
+        setItem: () => {
+          throw new Error("disk on fire");
+        },
+      },
+      onError,
+    });
+    assertEquals(broken.setMany({ two: 2 }), false);
+
+    const storage = new BrowserStorage({ onError });
+    assertEquals(storage.set("big", 1n), false);
+
+    assertEquals(reported.map(([error, context]) => [error.constructor, context]), [
+      [StorageQuotaError, { operation: "set", key: "one" }],
+      [StorageAdapterError, { operation: "set" }],
+      [StorageSerializationError, { operation: "set", key: "big" }],
+    ]);
+    assertInstanceOf(reported[0][0].cause, DOMException);
+  });
+
+  await t.step("strict mode throws instead of returning false", async () => {
+    const storage = new BrowserStorage({ adapter: new QuotaAdapter(), strict: true });
+    assertThrows(() => storage.set("one", "value"), StorageQuotaError);
+
+    const async = new AsyncBrowserStorage({
+      adapter: {
+        getItem: () => Promise.resolve(null),
+        removeItem: () => Promise.resolve(),
+        setItem: () => Promise.reject(new Error("offline")),
+      },
+      strict: true,
+    });
+    await assertRejects(() => async.set("one", "value"), StorageAdapterError);
+  });
+
+  await t.step("values that fail to parse are reported and returned raw", () => {
+    const reported: StorageErrorContext[] = [];
+    const adapter = new MemoryStorageAdapter();
+    adapter.setItem("legacy", "not json");
+    const storage = new BrowserStorage({
+      adapter,
+      onError: (error, context) => {
+        assertInstanceOf(error, StorageParseError);
+        reported.push(context);
+      },
+    });
+
+    assertEquals(storage.get("legacy"), "not json");
+    assertEquals(reported, [{ operation: "get", key: "legacy" }]);
+  });
+});
+
+Deno.test("eviction", async (t) => {
+  // holds `capacity` items, the eviction index included
+  class LimitedAdapter extends MemoryStorageAdapter {
+    constructor(private readonly capacity: number) {
+      super();
+    }
+
+    override setItem(key: string, value: string): void {
+      if (this.getItem(key) === null && this.length >= this.capacity) {
+        throw new DOMException("The quota has been exceeded.", "QuotaExceededError");
+      }
+      super.setItem(key, value);
+    }
+  }
+
+  await t.step("lru evicts the least recently used entry", () => {
+    const storage = new BrowserStorage({ adapter: new LimitedAdapter(4), eviction: "lru" });
+    storage.set("one", 1);
+    storage.set("two", 2);
+    storage.set("three", 3);
+    storage.get("one");
+
+    assertEquals(storage.set("four", 4), true);
+    assertEquals(storage.keys().sort(), ["four", "one", "three"]);
+  });
+
+  await t.step("priority evicts the lowest priority first", () => {
+    const storage = new BrowserStorage({ adapter: new LimitedAdapter(4), eviction: "priority" });
+    storage.set("high", 1, undefined, { priority: 10 });
+    storage.set("low", 2, undefined, { priority: 1 });
+    storage.set("middle", 3, undefined, { priority: 5 });
+
+    const evicted: string[] = [];
+    storage.onChange(({ key, newValue }) => newValue === null && evicted.push(key));
+    assertEquals(storage.set("new", 4, undefined, { priority: 5 }), true);
+    assertEquals(evicted, ["low"]);
+  });
+
+  await t.step("pinned keys are never evicted", () => {
+    const storage = new BrowserStorage({ adapter: new LimitedAdapter(3), eviction: "lru" });
+    const session = storage.define<string>("session", undefined, { pinned: true });
+    session.set("abc");
+    storage.set("draft", "text");
+
+    assertEquals(storage.set("other", "value"), true);
+    assertEquals(session.get(), "abc");
+    assertEquals(storage.has("draft"), false);
+  });
+
+  await t.step("reads note access times without writing the index", () => {
+    const adapter = new LimitedAdapter(3);
+    const writes: string[] = [];
+    const setItem = adapter.setItem.bind(adapter);
+    adapter.setItem = (key, value) => {
+      writes.push(key);
+      setItem(key, value);
+    };
+    const storage = new BrowserStorage({ adapter, prefix: "app:", eviction: "lru" });
+    storage.set("one", 1);
+    storage.set("two", 2);
+    writes.length = 0;
+
+    storage.getMany(["two", "one"]);
+    for (let i = 0; i < 5; i++) storage.get("one");
+    assertEquals(writes, []);
+
+    // the reads still count when the next write has to evict
+    assertEquals(storage.set("three", 3), true);
+    assertEquals(storage.keys().sort(), ["one", "three"]);
+  });
+
+  await t.step("pins hold across instances and without the index", () => {
+    const adapter = new LimitedAdapter(3);
+    const tabA = new BrowserStorage({ adapter, eviction: "lru" });
+    const tabB = new BrowserStorage({ adapter, eviction: "lru" });
+    tabB.get("anything");
+    tabA.set("session", "abc", undefined, { pinned: true });
+    tabB.set("draft", "text");
+    tabB.get("draft");
+
+    assertEquals(tabB.set("other", "value"), true);
+    assertEquals(tabA.get("session"), "abc");
+    assertEquals(tabB.has("draft"), false);
+
+    // a full store keeps the index from being saved again
+    adapter.removeItem("__bs_eviction__");
+    assertEquals(tabB.set("another", "value"), true);
+    assertEquals(adapter.getItem("__bs_eviction__"), null);
+    assertEquals(tabB.set("last", "value"), true);
+    assertEquals(tabA.get("session"), "abc");
+  });
+
+  await t.step("priorities hold without the index", () => {
+    const adapter = new LimitedAdapter(3);
+    const storage = new BrowserStorage({ adapter, eviction: "priority" });
+    storage.set("high", 1, undefined, { priority: 5 });
+    storage.set("low", 2);
+
+    // a full store keeps the index from being saved again
+    adapter.removeItem("__bs_eviction__");
+    assertEquals(storage.set("new", 3), true);
+    assertEquals(adapter.getItem("__bs_eviction__"), null);
+    assertEquals(storage.set("next", 4), true);
+    assertEquals(storage.get("high"), 1);
+  });
+
+  await t.step("pins hold across namespaces, whose bookkeeping stays hidden", () => {
+    const adapter = new LimitedAdapter(4);
+    const storage = new BrowserStorage({ adapter, prefix: "app:", eviction: "lru" });
+    const auth = storage.namespace("auth");
+    auth.set("token", "abc", undefined, { pinned: true });
+    storage.set("draft", "text");
+
+    assertEquals(storage.keys().sort(), ["auth:token", "draft"]);
+    assertEquals(storage.set("other", "value"), true);
+    assertEquals(auth.get("token"), "abc");
+    assertEquals(storage.has("draft"), false);
+  });
+
+  await t.step("fails when nothing is left to evict", () => {
+    const storage = new BrowserStorage({ adapter: new LimitedAdapter(2), eviction: "lru" });
+    storage.set("pinned", 1, undefined, { pinned: true });
+
+    assertEquals(storage.set("other", 2), false);
+    assertEquals(storage.get("pinned"), 1);
+  });
+
+  await t.step("without a policy the write fails", () => {
+    const storage = new BrowserStorage({ adapter: new LimitedAdapter(1) });
+    storage.set("one", 1);
+    assertEquals(storage.set("two", 2), false);
+    assertEquals(storage.get("one"), 1);
+  });
+});
+
+Deno.test("compression", async (t) => {
+  const response = {
+    data: {
+      posts: Array.from({ length: 50 }, (_, id) => ({ id, title: "Hello world", tags: ["news"] })),
+    },
+  };
+
+  await t.step("compresses values from the threshold and reads them back", () => {
+    const adapter = new MemoryStorageAdapter();
+    const storage = new BrowserStorage({ adapter, compression: { threshold: 100 } });
+    storage.set("response", response);
+    storage.set("small", { ok: true });
+
+    const raw = adapter.getItem("response")!;
+    assertEquals(raw.startsWith("\u0000lz:"), true);
+    assertEquals(raw.length < JSON.stringify(response).length / 4, true);
+    assertEquals(adapter.getItem("small"), '{"ok":true}');
+    assertEquals(storage.get("response"), response);
+    assertEquals(storage.getMany(["response", "small"]), { response, small: { ok: true } });
+
+    const uncompressed = new BrowserStorage({ adapter });
+    assertEquals(uncompressed.get("response"), response);
+  });
+
+  await t.step("round-trips any UTF-16 text", () => {
+    const storage = new BrowserStorage({ compression: { threshold: 0 } });
+    const values = [
+      "",
+      "a",
+      "a".repeat(1000),
+      "abababababababab",
+      "ünïcödé ✓ 日本語 😀😀😀 ".repeat(20),
+      "\u0000￿\ud800".repeat(5),
+      Array.from({ length: 5000 }, (_, i) => String.fromCharCode(i * 7 % 65536)).join(""),
+    ];
+    for (const value of values) {
+      storage.set("value", value);
+      assertEquals(storage.get("value"), value);
+    }
+  });
+
+  await t.step("reports corrupt compressed values and reads them as missing", () => {
+    const reported: StorageErrorContext[] = [];
+    const adapter = new MemoryStorageAdapter();
+    const storage = new BrowserStorage({
+      adapter,
+      onError: (error, context) => {
+        assertInstanceOf(error, StorageParseError);
+        reported.push(context);
+      },
+    });
+    adapter.setItem("broken", "\u0000lz:\u0001");
+
+    assertEquals(storage.get("broken"), null);
+    assertEquals(reported, [{ operation: "get", key: "broken" }]);
+  });
+
+  await t.step("async storage compresses with CompressionStream", async () => {
+    const adapter = new MemoryStorageAdapter();
+    const asyncAdapter: AsyncAdapter = {
+      getItem: (key) => Promise.resolve(adapter.getItem(key)),
+      removeItem: (key) => Promise.resolve(adapter.removeItem(key)),
+      setItem: (key, value) => Promise.resolve(adapter.setItem(key, value)),
+    };
+    const storage = new AsyncBrowserStorage({
+      adapter: asyncAdapter,
+      cache: "write-behind",
+      compression: true,
+    });
+
+    await storage.set("response", response);
+    await storage.flush();
+    const raw = adapter.getItem("response")!;
+    assertEquals(raw.startsWith("\u0000df:"), true);
+    assertEquals(raw.length < JSON.stringify(response).length / 4, true);
+    assertEquals(await storage.get("response"), response);
+
+    const fresh = new AsyncBrowserStorage({ adapter: asyncAdapter });
+    assertEquals(await fresh.get("response"), response);
+
+    adapter.setItem("broken", "\u0000df:garbage");
+    assertEquals(await fresh.get("broken"), null);
+  });
+});
+
+Deno.test("snapshots", async (t) => {
+  await t.step("exports values under the prefix with their metadata", () => {
+    const adapter = new MemoryStorageAdapter();
+    const storage = new BrowserStorage({ adapter, prefix: "app:" });
+    storage.set("user", { name: "Jane" }, undefined, { version: 2 });
+    storage.set("session", "abc", undefined, { expiresAt: 4102444800000 });
+    storage.set("gone", "old", undefined, { expiresAt: 1 });
+    adapter.setItem("other", '"not ours"');
+
+    const snapshot = storage.exportSnapshot();
+    assertEquals(snapshot.format, "values");
+    assertEquals(snapshot.prefix, "app:");
+    assertEquals(snapshot.entries, {
+      user: { value: { name: "Jane" }, version: 2 },
+      session: { value: "abc", expiresAt: 4102444800000 },
+    });
+    assertEquals(JSON.parse(JSON.stringify(snapshot)), snapshot);
+
+    const raw = storage.exportSnapshot({ format: "raw" });
+    assertEquals(raw.entries, {
+      user: adapter.getItem("app:user")!,
+      session: adapter.getItem("app:session")!,
+    });
+  });
+
+  await t.step("imports with each strategy", () => {
+    const source = new BrowserStorage();
+    source.setMany({ one: 1, two: 2 });
+    const snapshot = source.exportSnapshot();
+    const target = () => {
+      const storage = new BrowserStorage({ prefix: "app:" });
+      storage.setMany({ two: "old", three: 3 });
+      return storage;
+    };
+
+    const merged = target();
+    assertEquals(merged.importSnapshot(snapshot), {
+      added: ["one"],
+      overwritten: ["two"],
+      skipped: [],
+      removed: [],
+    });
+    assertEquals(merged.getMany(["one", "two", "three"]), { one: 1, two: 2, three: 3 });
+
+    const replaced = target();
+    assertEquals(replaced.importSnapshot(snapshot, { strategy: "replace" }).removed, ["three"]);
+    assertEquals(replaced.keys().sort(), ["one", "two"]);
+
+    const kept = target();
+    assertEquals(kept.importSnapshot(snapshot, { strategy: "skip-existing" }), {
+      added: ["one"],
+      overwritten: [],
+      skipped: ["two"],
+      removed: [],
+    });
+    assertEquals(kept.get("two"), "old");
+  });
+
+  await t.step("a dry run reports without writing", () => {
+    const storage = new BrowserStorage();
+    storage.set("one", "old");
+    const result = storage.importSnapshot(
+      { version: 1, prefix: "", createdAt: 0, format: "values", entries: { one: { value: 1 } } },
+      { dryRun: true, strategy: "replace" },
+    );
+    assertEquals(result.overwritten, ["one"]);
+    assertEquals(storage.get("one"), "old");
+  });
+
+  await t.step("raw snapshots round-trip between async and sync storage", async () => {
+    const source = new AsyncBrowserStorage({
+      adapter: {
+        getItem: (key) => Promise.resolve(key === "app:token" ? '"abc"' : null),
+        removeItem: () => Promise.resolve(),
+        setItem: () => Promise.resolve(),
+        keys: () => Promise.resolve(["app:token"]),
+      },
+      prefix: "app:",
+    });
+    const snapshot = await source.exportSnapshot({ format: "raw" });
+    assertEquals(snapshot.entries, { token: '"abc"' });
+
+    const target = new BrowserStorage({ prefix: "app:" });
+    target.importSnapshot(snapshot);
+    assertEquals(target.get("token"), "abc");
+  });
+
+  await t.step("rejects unknown snapshot formats", () => {
+    assertThrows(
+      () => new BrowserStorage().importSnapshot({ version: 2 } as unknown as StorageSnapshot),
+      TypeError,
+    );
+  });
+});
+
+Deno.test("entry metadata", async (t) => {
+  await t.step("records creation, updates and writes without changing get()", () => {
+    const adapter = new MemoryStorageAdapter();
+    const storage = new BrowserStorage({ adapter, metadata: true });
+    const before = Date.now();
+    storage.set("user", { id: 1 });
+    storage.update<{ id: number }>("user", (user) => ({ id: user!.id + 1 }));
+
+    assertEquals(storage.get("user"), { id: 2 });
+    const { value, meta } = storage.getWithMeta("user")!;
+    assertEquals(value, { id: 2 });
+    assertEquals(meta.writes, 2);
+    assertEquals(meta.createdAt! >= before && meta.createdAt! <= meta.updatedAt!, true);
+    assertEquals(storage.getWithMeta("missing"), null);
+  });
+
+  await t.step("reads values written without metadata", () => {
+    const adapter = new MemoryStorageAdapter();
+    adapter.setItem("plain", '"abc"');
+    const storage = new BrowserStorage({ adapter, metadata: true });
+
+    assertEquals(storage.getWithMeta("plain"), { value: "abc", meta: {} });
+    storage.set("plain", "def");
+    assertEquals(storage.getWithMeta("plain")?.meta.writes, 1);
+    assertEquals(new BrowserStorage({ adapter }).get("plain"), "def");
+  });
+
+  await t.step("filters entries by age and tags", () => {
+    const adapter = new MemoryStorageAdapter();
+    const storage = new BrowserStorage({ adapter, prefix: "cache:", metadata: true });
+    const hourAgo = Date.now() - 60 * 60_000;
+    adapter.setItem(
+      "cache:stale",
+      JSON.stringify({ __bs: 1, value: 1, createdAt: hourAgo, updatedAt: hourAgo, writes: 1 }),
+    );
+    storage.set("fresh", 2, undefined, { tags: ["feed"] });
+    storage.set("other", 3, undefined, { tags: ["feed", "user"] });
+    adapter.setItem("cache:legacy", "4");
+
+    const keys = (filter: MetadataFilter) => storage.entriesWithMeta(filter).map(([key]) => key);
+    assertEquals(keys({ olderThan: 5 * 60_000 }), ["stale"]);
+    assertEquals(keys({ newerThan: 5 * 60_000 }), ["fresh", "other"]);
+    assertEquals(keys({ tags: ["feed", "user"] }), ["other"]);
+    assertEquals(storage.entriesWithMeta().length, 4);
+  });
+
+  await t.step("defined keys read their metadata and tag every write", () => {
+    const storage = new BrowserStorage({ metadata: true });
+    const token = storage.define<string>("token", undefined, { tags: ["auth"] });
+    token.set("abc");
+    token.update((current) => current + "d");
+
+    const entry = token.getWithMeta();
+    assertEquals(entry?.value, "abcd");
+    assertEquals(entry?.meta.tags, ["auth"]);
+    assertEquals(entry?.meta.writes, 2);
+  });
+
+  await t.step("async storage records metadata through its cache", async () => {
+    const adapter = new MemoryStorageAdapter();
+    const asyncAdapter: AsyncAdapter = {
+      getItem: (key) => Promise.resolve(adapter.getItem(key)),
+      removeItem: (key) => Promise.resolve(adapter.removeItem(key)),
+      setItem: (key, value) => Promise.resolve(adapter.setItem(key, value)),
+      keys: () => Promise.resolve(Array.from(adapter.entries(), ([key]) => key)),
+    };
+    const storage = new AsyncBrowserStorage({
+      adapter: asyncAdapter,
+      cache: "write-behind",
+      metadata: true,
+    });
+    await storage.setMany({ one: 1, two: 2 });
+    await storage.transaction((tx) => {
+      tx.set("one", 10);
+      tx.set("one", 11);
+    });
+
+    assertEquals(await storage.get("one"), 11);
+    assertEquals((await storage.getWithMeta("one"))?.meta.writes, 3);
+    assertEquals((await storage.define("two").getWithMeta())?.meta.writes, 1);
+    assertEquals(
+      (await storage.entriesWithMeta({ newerThan: 60_000 })).map(([key]) => key),
+      ["one", "two"],
+    );
+  });
+});
+
+Deno.test("transactions", async (t) => {
+  // rejects writes to keys listed in `full`, like a quota that a large value exceeds
+  class FullAdapter extends MemoryStorageAdapter {
+    readonly full = new Set<string>();
+
+    override setItem(key: string, value: string): void {
+      if (this.full.has(key)) {
+        throw new DOMException("The quota has been exceeded.", "QuotaExceededError");
+      }
+      super.setItem(key, value);
+    }
+  }
+
+  await t.step("applies staged writes and removals together", () => {
+    const storage = new BrowserStorage({ prefix: "app:" });
+    storage.setMany({ token: "old", cache: [1] });
+    const changes: StorageChange[] = [];
+    storage.subscribe("token", (change) => changes.push(change));
+
+    const result = storage.transaction((tx) => {
+      tx.set("token", "new");
+      tx.set("user", { id: 1 });
+      tx.remove("cache");
+    });
+
+    assertEquals(result, { status: "committed", keys: ["token", "user", "cache"] });
+    assertEquals(storage.getMany(["token", "user", "cache"]), {
+      token: "new",
+      user: { id: 1 },
+      cache: null,
+    });
+    assertEquals(changes.map(({ oldValue, newValue }) => [oldValue, newValue]), [["old", "new"]]);
+  });
+
+  await t.step("restores the previous items when a write fails", () => {
+    const adapter = new FullAdapter();
+    adapter.full.add("app:user");
+    const reported: StorageErrorContext[] = [];
+    const storage = new BrowserStorage({
+      adapter,
+      prefix: "app:",
+      onError: (_error, context) => reported.push(context),
+    });
+    storage.set("token", "old");
+
+    const result = storage.transaction((tx) => {
+      tx.set("token", "new");
+      tx.remove("cache");
+      tx.set("user", { id: 1 });
+    });
+
+    assertEquals(result.status, "rolled-back");
+    if (result.status === "rolled-back") {
+      assertInstanceOf(result.error, StorageQuotaError);
+      assertEquals(result.unrestored, []);
+    }
+    assertEquals(reported, [{ operation: "transaction" }]);
+    assertEquals(storage.get("token"), "old");
+    assertEquals(adapter.getItem("app:user"), null);
+  });
+
+  await t.step("reports keys that could not be restored and throws in strict mode", () => {
+    const adapter = new FullAdapter();
+    const storage = new BrowserStorage({ adapter, strict: true });
+    storage.set("one", 1);
+    adapter.full.add("two");
+    const failing = (tx: { set(key: string, value: unknown): void }) => {
+      tx.set("one", 2);
+      tx.set("two", 2);
+    };
+
+    assertThrows(() => storage.transaction(failing), StorageQuotaError);
+    assertEquals(storage.get("one"), 1);
+
+    const lenient = new BrowserStorage({ adapter });
+    adapter.full.add("one");
+    adapter.full.delete("two");
+    const result = lenient.transaction((tx) => {
+      tx.set("two", 2);
+      tx.remove("one");
+      tx.set("one", 3);
+    });
+    assertEquals(result.status === "rolled-back" && result.unrestored, ["one"]);
+    assertEquals(adapter.getItem("two"), null);
+  });
+
+  await t.step("hands the operations to the adapter's commit when it has one", () => {
+    const commits: CommitOperation[][] = [];
+    const adapter = new MemoryStorageAdapter() as Adapter;
+    adapter.commit = (operations) => {
+      commits.push(operations);
+      throw new Error("aborted");
+    };
+    const storage = new BrowserStorage({ adapter });
+    storage.set("one", 1);
+
+    const result = storage.transaction((tx) => {
+      tx.set("two", 2);
+      tx.remove("one");
+    });
+
+    assertEquals(commits, [[{ key: "two", item: "2", config: undefined }, {
+      key: "one",
+      item: null,
+    }]]);
+    assertEquals(result.status === "rolled-back" && result.unrestored, []);
+    assertEquals(storage.get("one"), 1);
+  });
+
+  await t.step("writes nothing when the callback throws", () => {
+    const storage = new BrowserStorage();
+    assertThrows(() =>
+      storage.transaction((tx) => {
+        tx.set("one", 1);
+        throw new TypeError("bail out");
+      }), TypeError);
+    assertEquals(storage.get("one"), null);
+  });
+
+  await t.step("async storage flushes write-behind writes and rolls back", async () => {
+    const adapter = new FullAdapter();
+    const asyncAdapter: AsyncAdapter = {
+      getItem: (key) => Promise.resolve(adapter.getItem(key)),
+      removeItem: (key) => Promise.resolve(adapter.removeItem(key)),
+      setItem: (key, value) => Promise.resolve(adapter.setItem(key, value)),
+    };
+    const storage = new AsyncBrowserStorage({ adapter: asyncAdapter, cache: "write-behind" });
+    await storage.set("token", "old");
+
+    const committed = await storage.transaction(async (tx) => {
+      tx.set("token", await Promise.resolve("new"));
+      tx.set("user", 1);
+    });
+    assertEquals(committed.status, "committed");
+    assertEquals(adapter.getItem("token"), '"new"');
+    assertEquals(await storage.get("user"), 1);
+
+    adapter.full.add("cache");
+    const rolledBack = await storage.transaction((tx) => {
+      tx.remove("token");
+      tx.set("cache", []);
+    });
+    assertEquals(rolledBack.status, "rolled-back");
+    assertEquals(await storage.get("token"), "new");
+  });
+});
+
+Deno.test("usage", async (t) => {
+  await t.step("measures keys under the prefix as UTF-16, largest first", async () => {
+    const adapter = new MemoryStorageAdapter();
+    adapter.setItem("other", "not counted");
+    const storage = new BrowserStorage({ adapter, prefix: "app:" });
+    storage.set("a", "x");
+    storage.set("bb", "xxxxxxxx");
+    storage.set("ccc", "xxxx");
+
+    const usage = await storage.usage({ top: 2 });
+
+    // "app:a" + "\"x\"" is 8 UTF-16 code units
+    assertEquals(usage.keys, [
+      { key: "bb", bytes: 32 },
+      { key: "ccc", bytes: 26 },
+      { key: "a", bytes: 16 },
+    ]);
+    assertEquals(usage.bytes, 74);
+    assertEquals(usage.largest, usage.keys.slice(0, 2));
+    assertEquals(storage.define("bb").size(), 32);
+    assertEquals(storage.define("missing").size(), 0);
+  });
+
+  await t.step("includes the origin estimate when the browser provides one", async () => {
+    const storage = new BrowserStorage({ adapter: new MemoryStorageAdapter() });
+    const previous = Object.getOwnPropertyDescriptor(navigator, "storage");
+    Object.defineProperty(navigator, "storage", {
+      value: { estimate: () => Promise.resolve({ usage: 1024, quota: 4096 }) },
+      configurable: true,
+    });
+    try {
+      assertEquals((await storage.usage()).estimate, { usage: 1024, quota: 4096 });
+    } finally {
+      if (previous) Object.defineProperty(navigator, "storage", previous);
+      else delete (navigator as { storage?: unknown }).storage;
+    }
+    assertEquals((await storage.usage()).estimate, undefined);
+  });
+
+  await t.step("async storage counts stored bytes as UTF-8, pending writes included", async () => {
+    const adapter = new MemoryStorageAdapter();
+    const asyncAdapter: AsyncAdapter = {
+      getItem: (key) => Promise.resolve(adapter.getItem(key)),
+      removeItem: (key) => Promise.resolve(adapter.removeItem(key)),
+      setItem: (key, value) => Promise.resolve(adapter.setItem(key, value)),
+      keys: () => Promise.resolve(Array.from(adapter.entries(), ([key]) => key)),
+    };
+    const storage = new AsyncBrowserStorage({ adapter: asyncAdapter, cache: "write-behind" });
+    const name = storage.define("name");
+    await name.set("é");
+
+    // "name" + "\"é\"" is 4 + 4 UTF-8 bytes
+    assertEquals(await name.size(), 8);
+    const usage = await storage.usage();
+    assertEquals(usage.keys, [{ key: "name", bytes: 8 }]);
+    assertEquals(usage.bytes, 8);
+
+    await assertRejects(
+      () => new AsyncBrowserStorage({ adapter: { ...asyncAdapter, keys: undefined } }).usage(),
+      Error,
+      "usage() requires an adapter that implements keys()",
+    );
+  });
+});
+
+Deno.test("cross-context sync", async (t) => {
+  const delivered = () => new Promise((resolve) => setTimeout(resolve, 100));
+  // Deno releases its channel resource asynchronously once the last channel closes, which breaks
+  // channels opened right after; one channel kept open across the steps avoids that
+  const keepAlive = new BroadcastChannel("sync-keep-alive");
+
+  await t.step("applies writes from other instances and notifies their listeners", async () => {
+    const a = new BrowserStorage({ prefix: "app:", sync: "sync-memory" });
+    const b = new BrowserStorage({ prefix: "app:", sync: "sync-memory" });
+    const other = new BrowserStorage({ prefix: "other:", sync: "sync-memory" });
+    const changes: StorageChange[] = [];
+    const ownChanges: StorageChange[] = [];
+    b.onChange((change) => changes.push(change));
+    a.onChange((change) => ownChanges.push(change));
+
+    a.set("user", { name: "Jane" });
+    a.setMany({ theme: "dark", lang: "en" });
+    await delivered();
+    assertEquals(b.get("user"), { name: "Jane" });
+    assertEquals(b.getMany(["theme", "lang"]), { theme: "dark", lang: "en" });
+    assertEquals(other.keys(), []);
+
+    a.remove("theme");
+    await delivered();
+    assertEquals(b.get("theme"), null);
+    assertEquals(changes.at(-1), {
+      key: "theme",
+      oldValue: "dark",
+      newValue: null,
+      source: "external",
+    });
+    assertEquals(ownChanges.every(({ source }) => source === "local"), true);
+
+    b.disconnect();
+    a.set("user", "after disconnect");
+    await delivered();
+    assertEquals(b.get("user"), { name: "Jane" });
+    a.disconnect();
+    other.disconnect();
+  });
+
+  await t.step("child namespaces share their parent's channel", async () => {
+    const a = new BrowserStorage({ prefix: "app:", sync: "sync-namespaces" });
+    const b = new BrowserStorage({ prefix: "app:", sync: "sync-namespaces" });
+    const aAuth = a.namespace("auth");
+    const bAuth = b.namespace("auth");
+    const local: StorageChange[] = [];
+    const remote: StorageChange[] = [];
+    aAuth.onChange((change) => local.push(change));
+    bAuth.onChange((change) => remote.push(change));
+
+    a.set("auth:x", 1);
+    aAuth.set("token", "abc");
+    await delivered();
+    assertEquals(local.map(({ source }) => source), ["local"]);
+    assertEquals(remote, [
+      { key: "x", oldValue: null, newValue: 1, source: "external" },
+      { key: "token", oldValue: null, newValue: "abc", source: "external" },
+    ]);
+    assertEquals(b.get("auth:token"), "abc");
+
+    a.disconnect();
+    b.disconnect();
+    assertEquals(aAuth.set("token", "after disconnect"), true);
+    await delivered();
+    assertEquals(bAuth.get("token"), "abc");
+  });
+
+  await t.step("updates the async cache and drops superseded write-behind writes", async () => {
+    const shared = new MemoryStorageAdapter();
+    const adapter: AsyncAdapter = {
+      getItem: (key) => Promise.resolve(shared.getItem(key)),
+      setItem: (key, value) => Promise.resolve(shared.setItem(key, value)),
+      removeItem: (key) => Promise.resolve(shared.removeItem(key)),
+    };
+    const a = new AsyncBrowserStorage({ adapter, cache: "write-through", sync: "sync-async" });
+    const b = new AsyncBrowserStorage({
+      adapter,
+      cache: "write-behind",
+      flushInterval: 1000,
+      sync: "sync-async",
+    });
+
+    await b.set("draft", "stale");
+    await delivered();
+    await a.set("draft", "fresh");
+    await delivered();
+    assertEquals(b.getCache("draft"), '"fresh"');
+    await b.flush();
+    assertEquals(await a.get("draft"), "fresh");
+    assertEquals(shared.getItem("draft"), '"fresh"');
+
+    await a.clear();
+    await delivered();
+    assertEquals(b.getCache("draft"), null);
+    a.disconnect();
+    b.disconnect();
+  });
+
+  await t.step("ignores writes older than the last write to the key", async () => {
+    const storage = new BrowserStorage({ sync: "sync-conflicts" });
+    const channel = new BroadcastChannel("sync-conflicts");
+    storage.set("count", 2);
+    channel.postMessage({ type: "set", key: "count", item: "1", origin: "x", time: 1 });
+    channel.postMessage({ type: "remove", key: "other", origin: "x", time: Date.now() + 1000 });
+    await delivered();
+
+    assertEquals(storage.get("count"), 2);
+    storage.set("other", 1);
+    assertEquals(storage.get("other"), 1);
+    channel.postMessage({ type: "set", key: "other", item: "3", origin: "x", time: 2 });
+    await delivered();
+    assertEquals(storage.get("other"), 1);
+    channel.close();
+    storage.disconnect();
+  });
+
+  keepAlive.close();
+});
+
 Deno.test("adapters with custom setItem config", async (t) => {
   class TestingAdapter extends MemoryStorageAdapter {
     public config: unknown = null;
@@ -343,7 +2028,7 @@ Deno.test("adapters with custom setItem config", async (t) => {
   });
 });
 
-Deno.test("typed define and defineGroup (compile-time checks)", () => {
+Deno.test("typed define, defineGroup and defineFamily (compile-time checks)", () => {
   // The value of this test is in `deno check`; the bodies that must NOT type-check
   // are wrapped in never-invoked arrows so the @ts-expect-error fires without mutating.
   const storage = new BrowserStorage();
@@ -366,6 +2051,101 @@ Deno.test("typed define and defineGroup (compile-time checks)", () => {
   const _user: unknown = inferred.user.get();
   // @ts-expect-error aliases are inferred, so unknown members are rejected
   const _missing = () => inferred.missing;
+
+  const DRAFTS = storage.defineFamily<{ doc: string; rev: string }, string>("draft:{doc}:{rev}");
+  const _draft: string | null = DRAFTS({ doc: "a", rev: "1" }).get();
+  // @ts-expect-error every parameter needs a placeholder in the template
+  const _partial = () => storage.defineFamily<{ doc: string; rev: string }>("draft:{doc}");
+  // @ts-expect-error members are addressed by all of their parameters
+  const _member = () => DRAFTS({ doc: "a" });
+});
+
+Deno.test("key families", async (t) => {
+  await t.step("members are defined keys built from the template", () => {
+    const adapter = new MemoryStorageAdapter();
+    const storage = new BrowserStorage({ adapter, prefix: "app:" });
+    const drafts = storage.defineFamily<{ id: string }, { text: string }>("draft:{id}", undefined, {
+      defaultValue: { text: "" },
+    });
+    drafts({ id: "a" }).set({ text: "hello" });
+
+    assertEquals(drafts({ id: "a" }).key, "app:draft:a");
+    assertEquals(adapter.getItem("app:draft:a"), '{"text":"hello"}');
+    assertEquals(drafts({ id: "a" }).get(), { text: "hello" });
+    assertEquals(drafts({ id: "b" }).get(), { text: "" });
+    assertEquals(drafts.template, "draft:{id}");
+  });
+
+  await t.step("lists, reads and clears only the family's members", () => {
+    const storage = new BrowserStorage();
+    const settings = storage.defineFamily<{ workspace: string; user: string }, number>(
+      "settings:{workspace}:{user}",
+    );
+    settings({ workspace: "w1", user: "u1" }).set(1);
+    settings({ workspace: "w2", user: "u2" }).set(2);
+    settings({ workspace: "w3", user: "u3" }).set(3, undefined, { expiresAt: 1 });
+    storage.set("settings:other", 4);
+    storage.set("theme", "dark");
+
+    assertEquals(settings.keys(), [
+      { workspace: "w1", user: "u1" },
+      { workspace: "w2", user: "u2" },
+      { workspace: "w3", user: "u3" },
+    ]);
+    assertEquals(settings.entries(), [
+      [{ workspace: "w1", user: "u1" }, 1],
+      [{ workspace: "w2", user: "u2" }, 2],
+    ]);
+
+    settings.clearAll();
+    assertEquals(storage.keys(), ["settings:other", "theme"]);
+  });
+
+  await t.step("templates sharing a prefix keep their members apart", () => {
+    const storage = new BrowserStorage();
+    const drafts = storage.defineFamily<{ id: string }, string>("draft:{id}");
+    const meta = storage.defineFamily<{ id: string }, number>("draft:{id}:meta");
+    drafts({ id: "1" }).set("text");
+    meta({ id: "1" }).set(1);
+    meta({ id: "2" }).set(2);
+
+    assertEquals(drafts.keys(), [{ id: "1" }]);
+    assertEquals(meta.keys(), [{ id: "1" }, { id: "2" }]);
+    assertThrows(() => drafts({ id: "2:meta" }), TypeError, "ambiguous");
+
+    drafts.clearAll();
+    assertEquals(storage.keys(), ["draft:1:meta", "draft:2:meta"]);
+  });
+
+  await t.step("rejects missing, empty and ambiguous parameters", () => {
+    const storage = new BrowserStorage();
+    const pairs = storage.defineFamily<{ a: string; b: string }>("pair:{a}:{b}");
+
+    assertThrows(() => pairs({ a: "x" } as { a: string; b: string }), TypeError, "Missing");
+    assertThrows(() => pairs({ a: "", b: "y" }), TypeError, "Missing");
+    assertThrows(() => pairs({ a: "x:y", b: "z" }), TypeError, "ambiguous");
+    assertThrows(() => storage.defineFamily("plain" as never), TypeError, "placeholder");
+  });
+
+  await t.step("async families", async () => {
+    const adapter: AsyncAdapter & { storage: MemoryStorageAdapter } = {
+      storage: new MemoryStorageAdapter(),
+      getItem: (key) => Promise.resolve(adapter.storage.getItem(key)),
+      setItem: (key, value) => Promise.resolve(adapter.storage.setItem(key, value)),
+      removeItem: (key) => Promise.resolve(adapter.storage.removeItem(key)),
+      keys: () => Promise.resolve(Array.from(adapter.storage.entries(), ([key]) => key)),
+    };
+    const storage = new AsyncBrowserStorage({ adapter });
+    const carts = storage.defineFamily<{ id: string }, string[]>("cart:{id}");
+    await carts({ id: "1" }).set(["apple"]);
+    await carts({ id: "2" }).update((items) => [...items ?? [], "pear"]);
+    await storage.set("cart", "not a member");
+
+    assertEquals(await carts.keys(), [{ id: "1" }, { id: "2" }]);
+    assertEquals(await carts.entries(), [[{ id: "1" }, ["apple"]], [{ id: "2" }, ["pear"]]]);
+    await carts.clearAll();
+    assertEquals(await storage.keys(), ["cart"]);
+  });
 });
 
 Deno.test("defining named groups", async (t) => {
@@ -0,0 +1,140 @@
+import { AsyncBrowserStorage, DEFLATE_MARKER, ENVELOPE_MARKER, LZ_MARKER } from "./index.ts";
+import type { BrowserStorage, Serializer } from "./index.ts";
+
+/**
+ * How `migrateLegacyValues()` classified a stored item.
+ * - `v2`: written by v2, or read back the same way by v1 and v2; left alone.
+ * - `v1-string`: a string v1 wrote verbatim; it is rewritten as a serialized string.
+ * - `foreign`: binary text this library never writes; left alone.
+ * - `unparseable`: looks serialized but fails to parse, like truncated JSON; left alone.
+ */
+export type LegacyValueKind = "v2" | "v1-string" | "foreign" | "unparseable";
+
+export type LegacyMigrationOptions =
+  & (
+    /** Keys to scan, without the prefix. */
+    | { keys: readonly string[]; all?: false }
+    /** Scans every key under the prefix; requires key enumeration. */
+    | { all: true; keys?: undefined }
+  )
+  & {
+    /**
+     * (optional) Keys v1 held strings at. Their items are taken as verbatim strings whenever
+     * they do not parse to one, so a v1 `"1234"` becomes the string `"1234"`, not a number.
+     */
+    strings?: readonly string[];
+    /** (optional) Reports what the migration would do without writing anything. */
+    dryRun?: boolean;
+  };
+
+export type LegacyMigrationReport = {
+  /** Whether the marker of an earlier migration stopped this one before it scanned anything. */
+  alreadyMigrated: boolean;
+  /** How each scanned key, without the prefix, was classified. Missing keys are left out. */
+  keys: Record<string, LegacyValueKind>;
+  /** Keys rewritten under the current serializer, or that would be on a dry run. */
+  migrated: string[];
+};
+
+/** Reserved key, under the prefix, marking a completed migration of every key. */
+const MARKER_KEY = "__bs_legacy_migrated__";
+
+/**
+ * Upgrades values written by v1, which stored strings verbatim, to the v2 format. Each item is
+ * classified and the v1 strings are rewritten through `storage.set()`. An `all` run that rewrites
+ * every v1 string leaves a marker key under the prefix, and later runs return `alreadyMigrated`
+ * without scanning.
+ */
+export function migrateLegacyValues<SetConfig>(
+  storage: BrowserStorage<SetConfig>,
+  options: LegacyMigrationOptions,
+): LegacyMigrationReport;
+export function migrateLegacyValues<SetConfig>(
+  storage: AsyncBrowserStorage<SetConfig>,
+  options: LegacyMigrationOptions,
+): Promise<LegacyMigrationReport>;
+export function migrateLegacyValues<SetConfig>(
+  storage: BrowserStorage<SetConfig> | AsyncBrowserStorage<SetConfig>,
+  options: LegacyMigrationOptions,
+): LegacyMigrationReport | Promise<LegacyMigrationReport> {
+  return storage instanceof AsyncBrowserStorage
+    ? migrateAsync(storage, options)
+    : migrateSync(storage, options);
+}
+
+function migrateSync<SetConfig>(
+  storage: BrowserStorage<SetConfig>,
+  options: LegacyMigrationOptions,
+): LegacyMigrationReport {
+  const { adapter, prefix } = storage;
+  const report: LegacyMigrationReport = { alreadyMigrated: false, keys: {}, migrated: [] };
+  if (adapter.getItem(prefix + MARKER_KEY) !== null) return { ...report, alreadyMigrated: true };
+
+  for (const key of options.all ? storage.keys() : options.keys) {
+    const item = adapter.getItem(prefix + key);
+    if (item === null) continue;
+    const kind = report.keys[key] = classify(storage.serializer, item, options.strings, key);
+    if (kind === "v1-string" && (options.dryRun || storage.set(key, item))) {
+      report.migrated.push(key);
+    }
+  }
+  if (completed(options, report)) adapter.setItem(prefix + MARKER_KEY, marker());
+  return report;
+}
+
+async function migrateAsync<SetConfig>(
+  storage: AsyncBrowserStorage<SetConfig>,
+  options: LegacyMigrationOptions,
+): Promise<LegacyMigrationReport> {
+  const { adapter, prefix } = storage;
+  const report: LegacyMigrationReport = { alreadyMigrated: false, keys: {}, migrated: [] };
+  if (await adapter.getItem(prefix + MARKER_KEY) !== null) {
+    return { ...report, alreadyMigrated: true };
+  }
+
+  // items are read from the adapter, so pending write-behind writes must reach it first
+  await storage.flush();
+  for (const key of options.all ? await storage.keys() : options.keys) {
+    const item = await adapter.getItem(prefix + key);
+    if (item === null) continue;
+    const kind = report.keys[key] = classify(storage.serializer, item, options.strings, key);
+    if (kind === "v1-string" && (options.dryRun || await storage.set(key, item))) {
+      report.migrated.push(key);
+    }
+  }
+  if (completed(options, report)) await adapter.setItem(prefix + MARKER_KEY, marker());
+  return report;
+}
+
+/** Whether the run scanned every key and rewrote every v1 string, so none is left to migrate. */
+function completed(options: LegacyMigrationOptions, report: LegacyMigrationReport): boolean {
+  if (options.dryRun || !options.all) return false;
+  const strings = Object.values(report.keys).filter((kind) => kind === "v1-string");
+  return strings.length === report.migrated.length;
+}
+
+function classify(
+  serializer: Serializer,
+  item: string,
+  strings: readonly string[] | undefined,
+  key: string,
+): LegacyValueKind {
+  // only v2 compresses values
+  if (item.startsWith(LZ_MARKER) || item.startsWith(DEFLATE_MARKER)) return "v2";
+  let parsed: unknown;
+  try {
+    parsed = serializer.parse(item);
+  } catch {
+    // deno-lint-ignore no-control-regex
+    if (/[\u0000-\u0008\u000e-\u001f]/.test(item)) return "foreign";
+    return /^\s*[{["]/.test(item) ? "unparseable" : "v1-string";
+  }
+  if (!strings?.includes(key) || typeof parsed === "string") return "v2";
+  const envelope = typeof parsed === "object" && parsed !== null &&
+    (parsed as Record<string, unknown>)[ENVELOPE_MARKER] === 1;
+  return envelope ? "v2" : "v1-string";
+}
+
+function marker(): string {
+  return JSON.stringify({ migratedAt: Date.now() });
+}
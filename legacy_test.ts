@@ -0,0 +1,105 @@
+import { AsyncBrowserStorage, BrowserStorage, MemoryStorageAdapter } from "./index.ts";
+import type { AsyncAdapter } from "./index.ts";
+import { migrateLegacyValues } from "./legacy.ts";
+import { FakeAdapter } from "./testing.ts";
+import { assertEquals } from "@std/assert";
+
+Deno.test("legacy value migration", async (t) => {
+  /** Items as v1 wrote them: strings verbatim, everything else through JSON. */
+  const v1Items = {
+    "app:name": "Jane",
+    "app:pin": "1234",
+    "app:user": '{"email":"jane@example.com"}',
+    "app:broken": '{"email":',
+    "app:binary": "\u0001\u0002\u0003",
+    "other:name": "John",
+  };
+
+  await t.step("classifies items and rewrites v1 strings", () => {
+    const adapter = new MemoryStorageAdapter();
+    for (const [key, item] of Object.entries(v1Items)) adapter.setItem(key, item);
+    const storage = new BrowserStorage({ adapter, prefix: "app:" });
+    storage.set("token", "abc");
+
+    const report = migrateLegacyValues(storage, { all: true, strings: ["pin"] });
+
+    assertEquals(report, {
+      alreadyMigrated: false,
+      keys: {
+        name: "v1-string",
+        pin: "v1-string",
+        user: "v2",
+        broken: "unparseable",
+        binary: "foreign",
+        token: "v2",
+      },
+      migrated: ["name", "pin"],
+    });
+    assertEquals(storage.get("name"), "Jane");
+    assertEquals(storage.get("pin"), "1234");
+    assertEquals(storage.get("user"), { email: "jane@example.com" });
+    assertEquals(adapter.getItem("app:broken"), '{"email":');
+    assertEquals(adapter.getItem("other:name"), "John");
+    assertEquals(storage.keys().includes("__bs_legacy_migrated__"), false);
+  });
+
+  await t.step("a dry run reports without writing, and the marker stops later full runs", () => {
+    const adapter = new MemoryStorageAdapter();
+    adapter.setItem("name", "Jane");
+    const storage = new BrowserStorage({ adapter });
+
+    const dryRun = migrateLegacyValues(storage, { keys: ["name", "missing"], dryRun: true });
+    assertEquals(dryRun, {
+      alreadyMigrated: false,
+      keys: { name: "v1-string" },
+      migrated: ["name"],
+    });
+    assertEquals(adapter.getItem("name"), "Jane");
+
+    assertEquals(migrateLegacyValues(storage, { keys: ["name"] }).migrated, ["name"]);
+    assertEquals(adapter.getItem("name"), '"Jane"');
+    adapter.setItem("city", "Oslo");
+    assertEquals(migrateLegacyValues(storage, { all: true }).migrated, ["city"]);
+    assertEquals(migrateLegacyValues(storage, { all: true }), {
+      alreadyMigrated: true,
+      keys: {},
+      migrated: [],
+    });
+  });
+
+  await t.step("a failed rewrite leaves no marker, so a later run retries it", () => {
+    const adapter = new FakeAdapter();
+    adapter.setItem("app:name", "Jane");
+    const storage = new BrowserStorage({ adapter, prefix: "app:" });
+
+    adapter.failNext("setItem");
+    const failed = migrateLegacyValues(storage, { all: true });
+    assertEquals(failed.migrated, []);
+    assertEquals(adapter.getItem("app:name"), "Jane");
+
+    const retried = migrateLegacyValues(storage, { all: true });
+    assertEquals(retried.alreadyMigrated, false);
+    assertEquals(retried.migrated, ["name"]);
+    assertEquals(storage.get("name"), "Jane");
+  });
+
+  await t.step("async storage", async () => {
+    const items = new MemoryStorageAdapter();
+    const adapter: AsyncAdapter = {
+      getItem: (key) => Promise.resolve(items.getItem(key)),
+      setItem: (key, value) => Promise.resolve(items.setItem(key, value)),
+      removeItem: (key) => Promise.resolve(items.removeItem(key)),
+      keys: () => Promise.resolve(Array.from(items.entries(), ([key]) => key)),
+    };
+    for (const [key, item] of Object.entries(v1Items)) items.setItem(key, item);
+    const storage = new AsyncBrowserStorage({ adapter, prefix: "app:", cache: "write-behind" });
+
+    const report = await migrateLegacyValues(storage, { all: true });
+    assertEquals(report.migrated, ["name"]);
+    assertEquals(report.keys.pin, "v2");
+    assertEquals(await storage.get("name"), "Jane");
+    await storage.flush();
+    assertEquals(items.getItem("app:name"), '"Jane"');
+    assertEquals((await migrateLegacyValues(storage, { all: true })).alreadyMigrated, true);
+  });
+});
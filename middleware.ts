@@ -0,0 +1,223 @@
+import type { Adapter, AsyncAdapter, CommitOperation } from "./index.ts";
+
+/**
+ * Wraps a synchronous adapter. It receives the next adapter in the pipeline and returns the
+ * operations it intercepts; every other operation is passed through to `next`.
+ * @template SetConfig - Optional configuration type for the setItem method.
+ */
+export type AdapterMiddleware<SetConfig = unknown> = (
+  next: Adapter<SetConfig>,
+) => Partial<Adapter<SetConfig>>;
+
+/**
+ * Wraps an asynchronous adapter. It receives the next adapter in the pipeline and returns the
+ * operations it intercepts; every other operation is passed through to `next`.
+ * @template SetConfig - Optional configuration type for the setItem method.
+ */
+export type AsyncAdapterMiddleware<SetConfig = unknown> = (
+  next: AsyncAdapter<SetConfig>,
+) => Partial<AsyncAdapter<SetConfig>>;
+
+/** A middleware that works with both Adapter and AsyncAdapter. */
+export type UniversalMiddleware = AdapterMiddleware & AsyncAdapterMiddleware;
+
+/** Counters updated by `metricsMiddleware`; batch operations and commits count once per key. */
+export type AdapterMetrics = {
+  reads: number;
+  writes: number;
+  removals: number;
+  clears: number;
+};
+
+/** A one-to-one mapping between the keys storage uses and the keys the adapter stores. */
+export type KeyTransform = {
+  encode(key: string): string;
+  decode(storedKey: string): string;
+};
+
+/** Declared as a method so its parameters are bivariant and the operations of both kinds fit. */
+type Operation = { operation(...args: unknown[]): unknown }["operation"];
+
+type OperationName = typeof OPERATIONS[number];
+
+/** Either adapter kind, with its operations untyped so stock middlewares can serve both. */
+type LooseAdapter = { [Name in OperationName]?: Operation } & { length?: number };
+
+const OPERATIONS = [
+  "getItem",
+  "getItems",
+  "setItem",
+  "setItems",
+  "removeItem",
+  "removeItems",
+  "commit",
+  "clear",
+  "key",
+  "keys",
+] as const;
+
+/** Batch operations, by the single-item operation they would otherwise bypass. */
+const BATCHES = { getItem: "getItems", setItem: "setItems", removeItem: "removeItems" } as const;
+
+/**
+ * Wraps an adapter in middlewares. The first middleware is the outermost: it sees every call
+ * first and every result last. Optional capabilities of the base adapter (`key`/`length`,
+ * `keys`, `clear`, batches, `commit`) are kept unless a middleware overrides them.
+ *
+ * A middleware that intercepts `getItem`, `setItem` or `removeItem` without the matching batch
+ * operation hides that batch from the layers above, so batched calls still go through it. The
+ * same goes for `commit` when a middleware intercepts `setItem` or `removeItem` without it.
+ */
+export function composeAdapter<SetConfig>(
+  base: Adapter<SetConfig>,
+  ...middlewares: AdapterMiddleware<SetConfig>[]
+): Adapter<SetConfig>;
+export function composeAdapter<SetConfig>(
+  base: AsyncAdapter<SetConfig>,
+  ...middlewares: AsyncAdapterMiddleware<SetConfig>[]
+): AsyncAdapter<SetConfig>;
+export function composeAdapter(
+  base: object,
+  ...middlewares: ((next: never) => object)[]
+): object {
+  const layers = middlewares as ((next: LooseAdapter) => LooseAdapter)[];
+  return layers.reduceRight((next, middleware) => layer(next, middleware(next)), base);
+}
+
+function layer(next: LooseAdapter, overrides: LooseAdapter): LooseAdapter {
+  const adapter: LooseAdapter = {};
+  for (const name of OPERATIONS) {
+    const operation = overrides[name]?.bind(overrides) ?? next[name]?.bind(next);
+    if (operation) adapter[name] = operation;
+  }
+  for (const [single, batch] of Object.entries(BATCHES) as [OperationName, OperationName][]) {
+    if (overrides[single] && !overrides[batch]) delete adapter[batch];
+  }
+  if ((overrides.setItem || overrides.removeItem) && !overrides.commit) delete adapter.commit;
+  const length = Object.getOwnPropertyDescriptor(overrides, "length") ??
+    ("length" in next ? { get: () => next.length } : undefined);
+  if (length) Object.defineProperty(adapter, "length", { ...length, enumerable: true });
+  return adapter;
+}
+
+/** Calls back with the result of a sync or async operation. */
+function then<T, R>(result: T | Promise<T>, callback: (value: T) => R): R | Promise<R> {
+  return result instanceof Promise ? result.then(callback) : callback(result);
+}
+
+function universal(middleware: (next: LooseAdapter) => LooseAdapter): UniversalMiddleware {
+  return middleware as UniversalMiddleware;
+}
+
+/** Calls `before` with the arguments of every operation of `next`, then runs the operation. */
+function tap(
+  next: LooseAdapter,
+  before: (name: OperationName, args: unknown[]) => void,
+): LooseAdapter {
+  const adapter: LooseAdapter = {};
+  for (const name of OPERATIONS) {
+    const operation = next[name];
+    if (!operation) continue;
+    adapter[name] = (...args: unknown[]) => {
+      before(name, args);
+      return operation.apply(next, args);
+    };
+  }
+  return adapter;
+}
+
+/**
+ * Logs every adapter operation with its arguments, values included, before running it.
+ * @param log - receives the operation name and its arguments. @default console.debug
+ */
+export function loggingMiddleware(
+  log: (operation: string, ...args: unknown[]) => void = console.debug,
+): UniversalMiddleware {
+  return universal((next) => tap(next, (name, args) => log(name, ...args)));
+}
+
+/** Counts the reads, writes, removals and clears that reach the adapter into `counters`. */
+export function metricsMiddleware(counters: AdapterMetrics): UniversalMiddleware {
+  return universal((next) =>
+    tap(next, (name, args) => {
+      switch (name) {
+        case "getItem":
+          return counters.reads++;
+        case "getItems":
+          return counters.reads += (args[0] as string[]).length;
+        case "setItem":
+          return counters.writes++;
+        case "setItems":
+          return counters.writes += Object.keys(args[0] as Record<string, string>).length;
+        case "removeItem":
+          return counters.removals++;
+        case "removeItems":
+          return counters.removals += (args[0] as string[]).length;
+        case "commit":
+          for (const { item } of args[0] as CommitOperation[]) {
+            if (item === null) counters.removals++;
+            else counters.writes++;
+          }
+          return;
+        case "clear":
+          return counters.clears++;
+      }
+    })
+  );
+}
+
+/** Encodes keys on their way to the adapter and decodes the keys it enumerates. */
+export function keyTransformMiddleware({ encode, decode }: KeyTransform): UniversalMiddleware {
+  const encodeItems = (items: Record<string, string>) =>
+    Object.fromEntries(Object.entries(items).map(([key, item]) => [encode(key), item]));
+  return universal((next) => {
+    const adapter: LooseAdapter = {
+      getItem: (key: string) => next.getItem!(encode(key)),
+      setItem: (key: string, value: string, config?: unknown) =>
+        next.setItem!(encode(key), value, config),
+      removeItem: (key: string) => next.removeItem!(encode(key)),
+    };
+    if (next.getItems) adapter.getItems = (keys: string[]) => next.getItems!(keys.map(encode));
+    if (next.setItems) {
+      adapter.setItems = (items: Record<string, string>, config?: unknown) =>
+        next.setItems!(encodeItems(items), config);
+    }
+    if (next.removeItems) {
+      adapter.removeItems = (keys: string[]) => next.removeItems!(keys.map(encode));
+    }
+    if (next.commit) {
+      adapter.commit = (operations: CommitOperation[]) =>
+        next.commit!(operations.map((operation) => ({ ...operation, key: encode(operation.key) })));
+    }
+    if (next.key) {
+      adapter.key = (index: number) =>
+        then(
+          next.key!(index) as string | null | Promise<string | null>,
+          (key) => key === null ? null : decode(key),
+        );
+    }
+    if (next.keys) {
+      adapter.keys = () =>
+        then(next.keys!() as string[] | Promise<string[]>, (keys) => keys.map(decode));
+    }
+    return adapter;
+  });
+}
+
+/**
+ * Rejects every write, removal and clear with a TypeError, for read-only previews. Storage
+ * reports the failed writes like any other adapter failure.
+ */
+export function readOnlyMiddleware(): UniversalMiddleware {
+  return universal((next) => {
+    const adapter: LooseAdapter = {};
+    const writes = ["setItem", "setItems", "removeItem", "removeItems", "commit", "clear"] as const;
+    for (const name of writes) {
+      if (!next[name]) continue;
+      adapter[name] = () => {
+        throw new TypeError(`${name}() is not allowed on a read-only adapter`);
+      };
+    }
+    return adapter;
+  });
+}
@@ -0,0 +1,181 @@
+import { AsyncBrowserStorage, BrowserStorage, MemoryStorageAdapter } from "./index.ts";
+import type { Adapter, AsyncAdapter } from "./index.ts";
+import {
+  composeAdapter,
+  keyTransformMiddleware,
+  loggingMiddleware,
+  metricsMiddleware,
+  readOnlyMiddleware,
+} from "./middleware.ts";
+import type { AdapterMetrics, AdapterMiddleware } from "./middleware.ts";
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+
+Deno.test("adapter middleware", async (t) => {
+  class TestAsyncAdapter implements AsyncAdapter {
+    readonly storage = new Map<string, string>();
+
+    getItem(key: string): Promise<string | null> {
+      return Promise.resolve(this.storage.get(key) ?? null);
+    }
+
+    setItem(key: string, value: string): Promise<void> {
+      this.storage.set(key, value);
+      return Promise.resolve();
+    }
+
+    removeItem(key: string): Promise<void> {
+      this.storage.delete(key);
+      return Promise.resolve();
+    }
+
+    keys(): Promise<string[]> {
+      return Promise.resolve([...this.storage.keys()]);
+    }
+  }
+
+  await t.step("runs middlewares outermost first and passes SetConfig through", () => {
+    const calls: string[] = [];
+    const trace = (name: string): AdapterMiddleware<{ ttl: number }> => (next) => ({
+      setItem(key: string, value: string, config?: { ttl: number }) {
+        calls.push(`${name}:${key}:${config?.ttl}`);
+        next.setItem(key, value, config);
+      },
+    });
+    const base = new MemoryStorageAdapter();
+    const adapter = composeAdapter<{ ttl: number }>(base, trace("outer"), trace("inner"));
+
+    adapter.setItem("one", "1", { ttl: 5 });
+    assertEquals(calls, ["outer:one:5", "inner:one:5"]);
+    assertEquals(base.getItem("one"), "1");
+  });
+
+  await t.step("keeps the enumeration capabilities prefixed clear() relies on", () => {
+    const base = new MemoryStorageAdapter();
+    const storage = new BrowserStorage({
+      adapter: composeAdapter(base, loggingMiddleware(() => {})),
+      prefix: "app:",
+    });
+    storage.set("one", 1);
+    base.setItem("other", "2");
+
+    assertEquals(storage.keys(), ["one"]);
+    storage.clear();
+    assertEquals(base.getItem("app:one"), null);
+    assertEquals(base.getItem("other"), "2");
+  });
+
+  await t.step("logging", async () => {
+    const logged: unknown[][] = [];
+    const adapter = composeAdapter(
+      new TestAsyncAdapter(),
+      loggingMiddleware((...args) => logged.push(args)),
+    );
+    await adapter.setItem("one", "1");
+    await adapter.getItem("one");
+    assertEquals(logged, [["setItem", "one", "1"], ["getItem", "one"]]);
+  });
+
+  await t.step("metrics count batch operations per key", () => {
+    const counters: AdapterMetrics = { reads: 0, writes: 0, removals: 0, clears: 0 };
+    const storage = new BrowserStorage({
+      adapter: composeAdapter(new MemoryStorageAdapter() as Adapter, metricsMiddleware(counters)),
+    });
+    storage.setMany({ one: 1, two: 2 });
+    storage.get("one");
+    storage.remove("two");
+    storage.clear();
+
+    assertEquals(counters, { reads: 1, writes: 2, removals: 1, clears: 1 });
+  });
+
+  await t.step("key transforms map keys both ways", async () => {
+    const base = new TestAsyncAdapter();
+    const storage = new AsyncBrowserStorage({
+      adapter: composeAdapter(
+        base,
+        keyTransformMiddleware({
+          encode: (key) => key.toUpperCase(),
+          decode: (key) => key.toLowerCase(),
+        }),
+      ),
+      prefix: "app:",
+    });
+    await storage.set("token", "abc");
+
+    assertEquals([...base.storage.keys()], ["APP:TOKEN"]);
+    assertEquals(await storage.get("token"), "abc");
+    assertEquals(await storage.keys(), ["token"]);
+  });
+
+  await t.step("read-only blocks writes, including batches", async () => {
+    class BatchAdapter extends MemoryStorageAdapter {
+      setItems(items: Record<string, string>): void {
+        for (const [key, item] of Object.entries(items)) this.setItem(key, item);
+      }
+    }
+    const base = new BatchAdapter();
+    base.setItem("one", "1");
+    const adapter = composeAdapter(base, readOnlyMiddleware());
+    const storage = new BrowserStorage({ adapter });
+
+    assertEquals(storage.get("one"), 1);
+    assertEquals(storage.set("one", 2), false);
+    assertEquals(storage.setMany({ two: 2 }), false);
+    assertThrows(() => adapter.removeItem("one"), TypeError, "read-only");
+    assertEquals(base.getItem("two"), null);
+
+    const asyncStorage = new AsyncBrowserStorage({
+      adapter: composeAdapter(new TestAsyncAdapter(), readOnlyMiddleware()),
+      strict: true,
+    });
+    await assertRejects(() => asyncStorage.set("one", 1));
+  });
+
+  await t.step("a middleware that only intercepts getItem still sees batched reads", () => {
+    const reads: string[] = [];
+    const base = new MemoryStorageAdapter() as Adapter;
+    base.getItems = (keys) => keys.map(() => "batched");
+    const adapter = composeAdapter(base, (next) => ({
+      getItem(key) {
+        reads.push(key);
+        return next.getItem(key);
+      },
+    }));
+
+    assertEquals(adapter.getItems, undefined);
+    new BrowserStorage({ adapter }).getMany(["one", "two"]);
+    assertEquals(reads, ["one", "two"]);
+  });
+
+  await t.step("commit is kept, unless a middleware intercepts single writes", () => {
+    const counters: AdapterMetrics = { reads: 0, writes: 0, removals: 0, clears: 0 };
+    const base = new MemoryStorageAdapter() as Adapter;
+    const committed: string[] = [];
+    base.commit = (operations) => {
+      for (const { key, item } of operations) {
+        committed.push(key);
+        if (item === null) base.removeItem(key);
+        else base.setItem(key, item);
+      }
+    };
+    const storage = new BrowserStorage({
+      adapter: composeAdapter(
+        base,
+        metricsMiddleware(counters),
+        keyTransformMiddleware({ encode: (key) => `_${key}`, decode: (key) => key.slice(1) }),
+      ),
+    });
+    storage.transaction((tx) => {
+      tx.set("one", 1);
+      tx.remove("two");
+    });
+
+    assertEquals(committed, ["_one", "_two"]);
+    assertEquals(counters, { reads: 2, writes: 1, removals: 1, clears: 0 });
+
+    const intercepted = composeAdapter(base, (next) => ({
+      setItem: (key, value) => next.setItem(key, value),
+    }));
+    assertEquals(intercepted.commit, undefined);
+  });
+});
@@ -1 +1,7 @@
 export * from "./index.ts";
+export * from "./encryption.ts";
+export * from "./middleware.ts";
+export * from "./fallback.ts";
+export * from "./serializer.ts";
+export * from "./store.ts";
+export * from "./legacy.ts";
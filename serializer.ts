@@ -0,0 +1,235 @@
+import type { Serializer } from "./index.ts";
+
+/**
+ * Stores instances of a class through a plain representation.
+ * @template T - The class instance type.
+ */
+export type ClassCodec<T = unknown> = {
+  /** Unique, stable name written alongside the data. Renaming it orphans stored values. */
+  name: string;
+  type: abstract new (...args: never[]) => T;
+  /** Converts an instance to data the serializer can store, rich types included. */
+  serialize(value: T): unknown;
+  /** Rebuilds an instance from the data `serialize` returned. */
+  deserialize(data: unknown): T;
+};
+
+/** Property naming the type of a tagged value. */
+const TAG = "__bs_t";
+
+type Tagged = { [TAG]: string; v?: unknown; n?: string };
+
+const TYPED_ARRAYS = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+};
+
+type TypedArrayName = keyof typeof TYPED_ARRAYS;
+
+/**
+ * JSON serializer that round-trips the values JSON loses: `Date`, `Map`, `Set`, `BigInt`,
+ * `undefined`, `RegExp`, `NaN`/`Infinity`/`-0`, typed arrays, `ArrayBuffer` and circular or
+ * shared references, plus any class with a codec. Rich values are written as objects tagged
+ * with a `__bs_t` property; everything else is plain JSON, so values written with the default
+ * `JSON` serializer read back unchanged.
+ */
+export class RichSerializer implements Serializer {
+  private readonly codecs: ClassCodec[];
+
+  constructor(codecs: ClassCodec[] = []) {
+    const names = new Set(codecs.map(({ name }) => name));
+    if (names.size !== codecs.length) throw new TypeError("Class codec names must be unique");
+    this.codecs = codecs;
+  }
+
+  parse<T = unknown>(value: string): T {
+    return new Decoder(this.codecs).decode(JSON.parse(value)) as T;
+  }
+
+  stringify<T = unknown>(value: T): string {
+    return JSON.stringify(new Encoder(this.codecs).encode(value));
+  }
+}
+
+class Encoder {
+  /** Objects already written, numbered in the order they were first met. */
+  private readonly ids = new Map<object, number>();
+
+  constructor(private readonly codecs: ClassCodec[]) {}
+
+  encode(value: unknown): unknown {
+    switch (typeof value) {
+      case "string":
+      case "boolean":
+        return value;
+      case "number":
+        if (Object.is(value, -0)) return { [TAG]: "Number", v: "-0" };
+        return Number.isFinite(value) ? value : { [TAG]: "Number", v: String(value) };
+      case "bigint":
+        return { [TAG]: "BigInt", v: value.toString() };
+      case "undefined":
+      case "function":
+      case "symbol":
+        return { [TAG]: "undefined" };
+    }
+    if (value === null) return null;
+
+    const object = value as object;
+    const id = this.ids.get(object);
+    if (id !== undefined) return { [TAG]: "Ref", v: id };
+
+    const codec = this.codecs.find(({ type }) => object instanceof type);
+    if (codec) {
+      this.ids.set(object, this.ids.size);
+      return { [TAG]: "Class", n: codec.name, v: this.encode(codec.serialize(object)) };
+    }
+    if (object instanceof Date) {
+      const time = object.getTime();
+      return { [TAG]: "Date", v: Number.isNaN(time) ? null : time };
+    }
+    if (object instanceof RegExp) return { [TAG]: "RegExp", v: [object.source, object.flags] };
+    if (object instanceof ArrayBuffer) {
+      return { [TAG]: "ArrayBuffer", v: toBase64(new Uint8Array(object)) };
+    }
+    const typedArray = typedArrayName(object);
+    if (typedArray) {
+      const view = object as ArrayBufferView;
+      const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+      return { [TAG]: typedArray, v: toBase64(bytes) };
+    }
+    const { toJSON } = object as { toJSON?: () => unknown };
+    if (typeof toJSON === "function") return this.encode(toJSON.call(object));
+
+    this.ids.set(object, this.ids.size);
+    if (Array.isArray(object)) return Array.from(object, (item) => this.encode(item));
+    if (object instanceof Map) {
+      return {
+        [TAG]: "Map",
+        v: Array.from(object, ([key, item]) => [this.encode(key), this.encode(item)]),
+      };
+    }
+    if (object instanceof Set) {
+      return {
+        [TAG]: "Set",
+        v: Array.from(object, (item) => this.encode(item)),
+      };
+    }
+
+    const encoded: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(object)) encoded[key] = this.encode(item);
+    // an object that has the tag property itself is escaped, so it is not read as a rich value
+    return Object.hasOwn(object, TAG) ? { [TAG]: "Object", v: encoded } : encoded;
+  }
+}
+
+class Decoder {
+  /** Objects rebuilt so far, in the order the encoder numbered them. */
+  private readonly objects: (object | undefined)[] = [];
+
+  constructor(private readonly codecs: ClassCodec[]) {}
+
+  decode(value: unknown): unknown {
+    if (typeof value !== "object" || value === null) return value;
+    if (Array.isArray(value)) {
+      const array: unknown[] = [];
+      this.objects.push(array);
+      for (const item of value) array.push(this.decode(item));
+      return array;
+    }
+    if (!Object.hasOwn(value, TAG)) return this.decodeObject(value as Record<string, unknown>);
+
+    const { [TAG]: tag, v: data, n: name } = value as Tagged;
+    switch (tag) {
+      case "undefined":
+        return undefined;
+      case "Number":
+        return Number(data);
+      case "BigInt":
+        return BigInt(data as string);
+      case "Date":
+        return new Date(data === null ? NaN : data as number);
+      case "RegExp": {
+        const [source, flags] = data as [string, string];
+        return new RegExp(source, flags);
+      }
+      case "ArrayBuffer":
+        return fromBase64(data as string).buffer;
+      case "Map": {
+        const map = new Map();
+        this.objects.push(map);
+        for (const [key, item] of data as [unknown, unknown][]) {
+          const decodedKey = this.decode(key);
+          map.set(decodedKey, this.decode(item));
+        }
+        return map;
+      }
+      case "Set": {
+        const set = new Set();
+        this.objects.push(set);
+        for (const item of data as unknown[]) set.add(this.decode(item));
+        return set;
+      }
+      case "Object":
+        return this.decodeObject(data as Record<string, unknown>);
+      case "Ref": {
+        const object = this.objects[data as number];
+        if (object === undefined) {
+          throw new TypeError("A stored reference points into a value that is still being read");
+        }
+        return object;
+      }
+      case "Class": {
+        const codec = this.codecs.find((codec) => codec.name === name);
+        if (!codec) throw new TypeError(`No codec for the stored class "${name}"`);
+        const index = this.objects.push(undefined) - 1;
+        const instance = codec.deserialize(this.decode(data)) as object;
+        this.objects[index] = instance;
+        return instance;
+      }
+    }
+    if (Object.hasOwn(TYPED_ARRAYS, tag)) {
+      return new TYPED_ARRAYS[tag as TypedArrayName](fromBase64(data as string).buffer);
+    }
+    throw new TypeError(`Unknown stored type "${tag}"`);
+  }
+
+  private decodeObject(value: Record<string, unknown>): Record<string, unknown> {
+    const object: Record<string, unknown> = {};
+    this.objects.push(object);
+    for (const [key, item] of Object.entries(value)) {
+      // defineProperty keeps a "__proto__" key as data, like JSON.parse does
+      Object.defineProperty(object, key, {
+        value: this.decode(item),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return object;
+  }
+}
+
+function typedArrayName(value: object): TypedArrayName | undefined {
+  return (Object.keys(TYPED_ARRAYS) as TypedArrayName[]).find((name) =>
+    value instanceof TYPED_ARRAYS[name]
+  );
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,98 @@
+import { BrowserStorage, MemoryStorageAdapter } from "./index.ts";
+import { RichSerializer } from "./serializer.ts";
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+
+Deno.test("rich serializer", async (t) => {
+  const serializer = new RichSerializer();
+  const roundTrip = <T>(value: T): T => serializer.parse(serializer.stringify(value));
+
+  await t.step("round-trips the values JSON loses", () => {
+    const value = {
+      date: new Date("2024-01-02T03:04:05.000Z"),
+      invalidDate: new Date(NaN),
+      map: new Map<unknown, unknown>([["a", 1], [{ nested: true }, new Set([1n])]]),
+      set: new Set(["x", "y"]),
+      big: 12345678901234567890n,
+      missing: undefined,
+      pattern: /ab+c/gi,
+      numbers: [NaN, Infinity, -Infinity, -0, 1.5],
+      bytes: new Uint8Array([1, 2, 255]),
+      floats: new Float64Array([0.5, -2]),
+      buffer: new Uint16Array([7, 8]).buffer,
+    };
+    const result = roundTrip(value);
+
+    assertEquals(result, value);
+    assertInstanceOf(result.date, Date);
+    assertEquals(Object.hasOwn(result, "missing"), true);
+    assertEquals(Object.is(result.numbers[3], -0), true);
+    assertEquals(result.pattern.flags, "gi");
+    assertEquals(roundTrip(undefined), undefined);
+    // holes come back as undefined rather than JSON's null
+    assertEquals(roundTrip([1, , 3]), [1, undefined, 3]);
+  });
+
+  await t.step("keeps shared and circular references", () => {
+    const shared = { name: "shared" };
+    const value: Record<string, unknown> = { a: shared, b: [shared] };
+    value.self = value;
+    const map = new Map<string, unknown>();
+    map.set("map", map);
+    value.map = map;
+
+    const result = roundTrip(value);
+    assertEquals(result.a === (result.b as unknown[])[0], true);
+    assertEquals(result.self, result);
+    const decodedMap = result.map as Map<string, unknown>;
+    assertEquals(decodedMap.get("map"), decodedMap);
+  });
+
+  await t.step("reads plain JSON and objects that use the tag property", () => {
+    assertEquals(serializer.parse('{"a":[1,"two",null],"b":{"c":true}}'), {
+      a: [1, "two", null],
+      b: { c: true },
+    });
+    assertEquals(roundTrip({ __bs_t: "Date", v: 1 }), { __bs_t: "Date", v: 1 });
+    const proto = serializer.parse<Record<string, unknown>>('{"__proto__":{"polluted":true}}');
+    assertEquals(Object.getPrototypeOf(proto), Object.prototype);
+    assertEquals(({} as Record<string, unknown>).polluted, undefined);
+  });
+
+  await t.step("extends with class codecs", () => {
+    class Money {
+      constructor(readonly cents: bigint, readonly currency: string) {}
+    }
+    const money = new RichSerializer([{
+      name: "Money",
+      type: Money,
+      serialize: (value: Money) => [value.cents, value.currency],
+      deserialize: (data) => new Money(...(data as [bigint, string])),
+    }]);
+
+    const result = money.parse<{ price: Money }>(
+      money.stringify({ price: new Money(995n, "EUR") }),
+    );
+    assertInstanceOf(result.price, Money);
+    assertEquals(result.price.cents, 995n);
+
+    assertThrows(() => serializer.parse(money.stringify(new Money(1n, "EUR"))), TypeError, "Money");
+  });
+
+  await t.step("works as a storage serializer", () => {
+    const adapter = new MemoryStorageAdapter();
+    adapter.setItem("legacy", JSON.stringify({ visits: 3 }));
+    const storage = new BrowserStorage({ adapter, serializer });
+
+    storage.set("session", { since: new Date(0), tags: new Set(["a"]) }, undefined, {
+      ttl: 60_000,
+    });
+    storage.set("nothing", undefined);
+    storage.set("big", 1n);
+
+    assertEquals(storage.get("session"), { since: new Date(0), tags: new Set(["a"]) });
+    assertEquals(storage.get("nothing"), undefined);
+    assertEquals(storage.get("missing"), null);
+    assertEquals(storage.get("big"), 1n);
+    assertEquals(storage.get("legacy"), { visits: 3 });
+  });
+});
@@ -0,0 +1,155 @@
+import type { AsyncDefineResponse, DefineResponse, SetOptions } from "./index.ts";
+
+/**
+ * A defined key as a reactive store. It fits React's `useSyncExternalStore(store.subscribe,
+ * store.getSnapshot)` and Svelte's store contract (`$store`, `bind:value`).
+ * @template T - The value type stored at the key.
+ * @template SetConfig - Optional configuration type for the set method.
+ */
+export type DefinedStore<T, SetConfig = unknown> = {
+  /**
+   * Calls the listener with the current value right away and again after every change.
+   * @returns a function that removes the listener
+   */
+  subscribe(listener: (value: T | null) => void): () => void;
+  /** The current value. It keeps its identity until the key changes. */
+  getSnapshot(): T | null;
+  set(value: T, config?: SetConfig, options?: SetOptions): boolean;
+  update(updater: (current: T | null) => T, config?: SetConfig, options?: SetOptions): boolean;
+};
+
+/** The state of an asynchronous key as seen by AsyncDefinedStore. */
+export type AsyncStoreState<T> =
+  | { status: "loading"; value: null; error?: undefined }
+  | { status: "ready"; value: T | null; error?: undefined }
+  | { status: "error"; value: T | null; error: unknown };
+
+/**
+ * An asynchronous defined key as a reactive store whose snapshot is an AsyncStoreState.
+ * @template T - The value type stored at the key.
+ * @template SetConfig - Optional configuration type for the set method.
+ */
+export type AsyncDefinedStore<T, SetConfig = unknown> = {
+  /**
+   * Calls the listener with the current state right away and again after every change. The
+   * first subscriber starts loading the value.
+   * @returns a function that removes the listener
+   */
+  subscribe(listener: (state: AsyncStoreState<T>) => void): () => void;
+  /** The current state. It keeps its identity until the state changes. */
+  getSnapshot(): AsyncStoreState<T>;
+  /** Reads the value again. */
+  refresh(): Promise<void>;
+  set(value: T, config?: SetConfig, options?: SetOptions): Promise<boolean>;
+  update(
+    updater: (current: T | null) => T | Promise<T>,
+    config?: SetConfig,
+    options?: SetOptions,
+  ): Promise<boolean>;
+};
+
+/**
+ * Wraps a key from `BrowserStorage.define()` in a reactive store.
+ *
+ * While it has subscribers the store follows the key's change events. Without subscribers it
+ * reads the key once, on the next `getSnapshot()`, and keeps that snapshot. The first subscriber
+ * always reads the key again, and keeps the snapshot when the stored item did not change.
+ */
+export function createStore<T, SetConfig = unknown>(
+  defined: DefineResponse<T, SetConfig>,
+): DefinedStore<T, SetConfig> {
+  const listeners = new Set<(value: T | null) => void>();
+  let snapshot: T | null = null;
+  let item: string | null | undefined;
+  let stale = true;
+  let unsubscribe: (() => void) | undefined;
+
+  // a change always replaces the snapshot; other reads keep it for the same stored item
+  const refresh = (changed = false) => {
+    const value = defined.get<T>();
+    const next = defined.item();
+    if (changed || next !== item) snapshot = value;
+    item = next;
+    stale = false;
+  };
+  const notify = () => {
+    for (const listener of [...listeners]) listener(snapshot);
+  };
+
+  const store: DefinedStore<T, SetConfig> = {
+    subscribe(listener) {
+      if (!unsubscribe) {
+        refresh();
+        unsubscribe = defined.subscribe(() => {
+          refresh(true);
+          notify();
+        });
+      }
+      listeners.add(listener);
+      listener(snapshot);
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size || !unsubscribe) return;
+        unsubscribe();
+        unsubscribe = undefined;
+        stale = true;
+      };
+    },
+    getSnapshot() {
+      if (stale) refresh();
+      return snapshot;
+    },
+    set: (value, config, options) => defined.set(value, config, options),
+    update: (updater, config, options) => defined.update(updater, config, options),
+  };
+  return store;
+}
+
+/**
+ * Wraps a key from `AsyncBrowserStorage.define()` in a reactive store that reports loading and
+ * read errors. It only follows the key while it has subscribers.
+ */
+export function createAsyncStore<T, SetConfig = unknown>(
+  defined: AsyncDefineResponse<T, SetConfig>,
+): AsyncDefinedStore<T, SetConfig> {
+  const listeners = new Set<(state: AsyncStoreState<T>) => void>();
+  let state: AsyncStoreState<T> = { status: "loading", value: null };
+  let unsubscribe: (() => void) | undefined;
+  // only the latest read may settle the state
+  let reads = 0;
+
+  const setState = (next: AsyncStoreState<T>) => {
+    state = next;
+    for (const listener of [...listeners]) listener(state);
+  };
+
+  const store: AsyncDefinedStore<T, SetConfig> = {
+    subscribe(listener) {
+      listeners.add(listener);
+      if (!unsubscribe) {
+        unsubscribe = defined.subscribe(() => void store.refresh());
+        void store.refresh();
+      }
+      listener(state);
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size || !unsubscribe) return;
+        unsubscribe();
+        unsubscribe = undefined;
+      };
+    },
+    getSnapshot: () => state,
+    async refresh() {
+      const read = ++reads;
+      try {
+        const value = await defined.get<T>();
+        if (read === reads) setState({ status: "ready", value });
+      } catch (error) {
+        if (read === reads) setState({ status: "error", value: state.value, error });
+      }
+    },
+    set: (value, config, options) => defined.set(value, config, options),
+    update: (updater, config, options) => defined.update(updater, config, options),
+  };
+  return store;
+}
@@ -0,0 +1,123 @@
+import { AsyncBrowserStorage, BrowserStorage, MemoryStorageAdapter } from "./index.ts";
+import type { AsyncAdapter } from "./index.ts";
+import { RichSerializer } from "./serializer.ts";
+import { createAsyncStore, createStore } from "./store.ts";
+import type { AsyncStoreState } from "./store.ts";
+import { assertEquals } from "@std/assert";
+
+Deno.test("reactive stores", async (t) => {
+  class TestAsyncAdapter implements AsyncAdapter {
+    readonly storage = new Map<string, string>();
+    failing = false;
+
+    getItem(key: string): Promise<string | null> {
+      if (this.failing) return Promise.reject(new Error("unavailable"));
+      return Promise.resolve(this.storage.get(key) ?? null);
+    }
+
+    setItem(key: string, value: string): Promise<void> {
+      this.storage.set(key, value);
+      return Promise.resolve();
+    }
+
+    removeItem(key: string): Promise<void> {
+      this.storage.delete(key);
+      return Promise.resolve();
+    }
+  }
+
+  await t.step("keeps the snapshot identity until the key changes", () => {
+    const storage = new BrowserStorage({ adapter: new MemoryStorageAdapter() });
+    const store = createStore(storage.define<{ theme: string }>("settings"));
+    store.set({ theme: "dark" });
+
+    const snapshot = store.getSnapshot();
+    assertEquals(snapshot, { theme: "dark" });
+    const unsubscribe = store.subscribe(() => {});
+    assertEquals(store.getSnapshot() === snapshot, true);
+
+    store.set({ theme: "light" });
+    assertEquals(store.getSnapshot() === snapshot, false);
+    assertEquals(store.getSnapshot(), { theme: "light" });
+    unsubscribe();
+  });
+
+  await t.step("reads the key again for the first subscriber", () => {
+    const storage = new BrowserStorage({ adapter: new MemoryStorageAdapter() });
+    const store = createStore(storage.define<number>("count"));
+    store.set(1);
+    assertEquals(store.getSnapshot(), 1);
+
+    store.set(2);
+    const values: (number | null)[] = [];
+    const unsubscribe = store.subscribe((value) => values.push(value));
+    assertEquals(values, [2]);
+    unsubscribe();
+  });
+
+  await t.step("follows values only a rich serializer tells apart", () => {
+    const storage = new BrowserStorage({
+      adapter: new MemoryStorageAdapter(),
+      serializer: new RichSerializer(),
+    });
+    const store = createStore(storage.define<Map<string, bigint>>("totals"));
+    store.set(new Map([["a", 1n]]));
+    assertEquals(store.getSnapshot(), new Map([["a", 1n]]));
+
+    const values: (Map<string, bigint> | null)[] = [];
+    const unsubscribe = store.subscribe((value) => values.push(value));
+    store.set(new Map([["a", 2n]]));
+    assertEquals(store.getSnapshot(), new Map([["a", 2n]]));
+    assertEquals(values, [new Map([["a", 1n]]), new Map([["a", 2n]])]);
+    unsubscribe();
+  });
+
+  await t.step("calls subscribers right away and on every change until they leave", () => {
+    const storage = new BrowserStorage({ adapter: new MemoryStorageAdapter() });
+    const store = createStore(storage.define<number>("count"));
+    const values: (number | null)[] = [];
+
+    const unsubscribe = store.subscribe((value) => values.push(value));
+    store.set(1);
+    store.update((count) => (count ?? 0) + 1);
+    storage.remove("count");
+    unsubscribe();
+    store.set(5);
+
+    assertEquals(values, [null, 1, 2, null]);
+    assertEquals(store.getSnapshot(), 5);
+  });
+
+  await t.step("async stores move from loading to ready", async () => {
+    const storage = new AsyncBrowserStorage({ adapter: new TestAsyncAdapter() });
+    const defined = storage.define<string>("token");
+    await defined.set("abc");
+    const store = createAsyncStore(defined);
+    const states: AsyncStoreState<string>[] = [];
+
+    const unsubscribe = store.subscribe((state) => states.push(state));
+    await store.refresh();
+    await store.set("def");
+    await store.refresh();
+    unsubscribe();
+
+    assertEquals(states[0], { status: "loading", value: null });
+    assertEquals(states.at(-1), { status: "ready", value: "def" });
+    assertEquals(store.getSnapshot() === states.at(-1), true);
+  });
+
+  await t.step("async stores report read errors and keep the last value", async () => {
+    const adapter = new TestAsyncAdapter();
+    const storage = new AsyncBrowserStorage({ adapter, strict: true });
+    const store = createAsyncStore(storage.define<string>("token"));
+    await store.set("abc");
+    await store.refresh();
+
+    adapter.failing = true;
+    await store.refresh();
+    const state = store.getSnapshot();
+    assertEquals(state.status, "error");
+    assertEquals(state.value, "abc");
+    assertEquals((state.error as Error).message, "unavailable");
+  });
+});
@@ -0,0 +1,209 @@
+import { MemoryStorageAdapter } from "./index.ts";
+import type { Adapter, AsyncAdapter } from "./index.ts";
+
+/** An adapter operation the fakes record and can fail. */
+export type FakeOperation = "getItem" | "setItem" | "removeItem" | "clear";
+
+/**
+ * A call received by a fake adapter, whether or not it succeeded.
+ * @template SetConfig - Optional configuration type for the setItem method.
+ */
+export type RecordedCall<SetConfig = unknown> = {
+  operation: FakeOperation;
+  /** The key, except for `clear`. */
+  key?: string;
+  /** The value written by `setItem`. */
+  value?: string;
+  /** The config `setItem` received. */
+  config?: SetConfig;
+};
+
+/** Configuration options for FakeAdapter. */
+export type FakeAdapterOptions = {
+  /**
+   * (optional) Bytes the stored keys and values may take, counted as UTF-16 like browsers do.
+   * A `setItem` beyond it throws a `QuotaExceededError` DOMException.
+   */
+  quota?: number;
+  /**
+   * (optional) Chance, from 0 to 1, that any operation throws an InjectedFaultError.
+   * @default 0
+   */
+  faultRate?: number;
+  /**
+   * (optional) Seed for the random faults; the same seed fails the same calls.
+   * @default 1
+   */
+  seed?: number;
+};
+
+/** Configuration options for FakeAsyncAdapter. */
+export type FakeAsyncAdapterOptions = FakeAdapterOptions & {
+  /** (optional) Milliseconds every operation, or each listed operation, takes to settle. */
+  latency?: number | Partial<Record<FakeOperation, number>>;
+};
+
+/** A failure injected by a fake adapter, randomly or through `failNext()`. */
+export class InjectedFaultError extends Error {
+  override name = "InjectedFaultError";
+}
+
+/**
+ * MemoryStorageAdapter with a byte quota, seeded random faults, scripted failures and a log of
+ * every call it receives.
+ * @template SetConfig - Optional configuration type for the setItem method.
+ */
+export class FakeAdapter<SetConfig = unknown> extends MemoryStorageAdapter
+  implements Adapter<SetConfig> {
+  /** Every getItem, setItem, removeItem and clear call, in order. */
+  readonly calls: RecordedCall<SetConfig>[] = [];
+  quota?: number;
+  faultRate: number;
+  private readonly random: () => number;
+  private readonly scripted: { operation: FakeOperation; error: unknown }[] = [];
+
+  constructor(options: FakeAdapterOptions = {}) {
+    super();
+    this.quota = options.quota;
+    this.faultRate = options.faultRate ?? 0;
+    this.random = seededRandom(options.seed ?? 1);
+  }
+
+  /** Bytes the stored keys and values take, counted as UTF-16. */
+  get usedBytes(): number {
+    let bytes = 0;
+    for (const [key, value] of this.entries()) bytes += (key.length + value.length) * 2;
+    return bytes;
+  }
+
+  /**
+   * Makes the next call of the operation throw. Calls queue up, so failing twice in a row
+   * takes two calls.
+   * @param error - thrown instead of an InjectedFaultError
+   */
+  failNext(operation: FakeOperation, error?: unknown): void {
+    this.scripted.push({
+      operation,
+      error: error ?? new InjectedFaultError(`${operation}() failed as scripted`),
+    });
+  }
+
+  /** Overwrites an item with text that fails to parse, without recording a call. */
+  corrupt(key: string, item = "\u0000corrupted"): void {
+    super.setItem(key, item);
+  }
+
+  override clear(): void {
+    this.perform({ operation: "clear" });
+    super.clear();
+  }
+
+  override getItem(key: string): string | null {
+    this.perform({ operation: "getItem", key });
+    return super.getItem(key);
+  }
+
+  override removeItem(key: string): void {
+    this.perform({ operation: "removeItem", key });
+    super.removeItem(key);
+  }
+
+  override setItem(key: string, value: string, config?: SetConfig): void {
+    const call: RecordedCall<SetConfig> = { operation: "setItem", key, value };
+    if (config !== undefined) call.config = config;
+    this.perform(call);
+    if (this.quota !== undefined) {
+      const current = super.getItem(key);
+      const replaced = current === null ? 0 : (key.length + current.length) * 2;
+      if (this.usedBytes - replaced + (key.length + value.length) * 2 > this.quota) {
+        throw new DOMException(
+          `Failed to set "${key}": the quota has been exceeded.`,
+          "QuotaExceededError",
+        );
+      }
+    }
+    super.setItem(key, value);
+  }
+
+  /** Records the call, then throws a scripted or random failure for it, if any. */
+  private perform(call: RecordedCall<SetConfig>): void {
+    this.calls.push(call);
+    const index = this.scripted.findIndex(({ operation }) => operation === call.operation);
+    if (index !== -1) throw this.scripted.splice(index, 1)[0].error;
+    if (this.faultRate > 0 && this.random() < this.faultRate) {
+      throw new InjectedFaultError(`${call.operation}() failed as a random fault`);
+    }
+  }
+}
+
+/**
+ * AsyncAdapter counterpart of FakeAdapter, whose operations can also be slowed down.
+ * @template SetConfig - Optional configuration type for the setItem method.
+ */
+export class FakeAsyncAdapter<SetConfig = unknown> implements AsyncAdapter<SetConfig> {
+  /** The synchronous fake holding the items; its quota, faults and log apply here too. */
+  readonly sync: FakeAdapter<SetConfig>;
+  latency: number | Partial<Record<FakeOperation, number>>;
+
+  constructor(options: FakeAsyncAdapterOptions = {}) {
+    this.sync = new FakeAdapter(options);
+    this.latency = options.latency ?? 0;
+  }
+
+  /** Every getItem, setItem, removeItem and clear call, in order. */
+  get calls(): RecordedCall<SetConfig>[] {
+    return this.sync.calls;
+  }
+
+  /** @see FakeAdapter.failNext */
+  failNext(operation: FakeOperation, error?: unknown): void {
+    this.sync.failNext(operation, error);
+  }
+
+  /** @see FakeAdapter.corrupt */
+  corrupt(key: string, item?: string): void {
+    this.sync.corrupt(key, item);
+  }
+
+  keys(): Promise<string[]> {
+    return Promise.resolve(Array.from(this.sync.entries(), ([key]) => key));
+  }
+
+  async clear(): Promise<void> {
+    await this.delay("clear");
+    this.sync.clear();
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    await this.delay("getItem");
+    return this.sync.getItem(key);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.delay("removeItem");
+    this.sync.removeItem(key);
+  }
+
+  async setItem(key: string, value: string, config?: SetConfig): Promise<void> {
+    await this.delay("setItem");
+    this.sync.setItem(key, value, config);
+  }
+
+  private delay(operation: FakeOperation): Promise<void> {
+    const ms = typeof this.latency === "number" ? this.latency : this.latency[operation] ?? 0;
+    if (!ms) return Promise.resolve();
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+/** Mulberry32: a small, fast generator, good enough to spread faults evenly. */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,98 @@
+import {
+  AsyncBrowserStorage,
+  BrowserStorage,
+  StorageParseError,
+  StorageQuotaError,
+} from "./index.ts";
+import type { StorageError } from "./index.ts";
+import { FakeAdapter, FakeAsyncAdapter, InjectedFaultError } from "./testing.ts";
+import { assertEquals, assertInstanceOf, assertRejects, assertThrows } from "@std/assert";
+
+Deno.test("test-double adapters", async (t) => {
+  await t.step("records every call with the config it received", () => {
+    const adapter = new FakeAdapter<{ ttl: number }>();
+    const storage = new BrowserStorage<{ ttl: number }>({ adapter });
+    storage.set("one", 1, { ttl: 5 });
+    storage.get("one");
+    storage.remove("one");
+    storage.clear();
+
+    assertEquals(adapter.calls, [
+      { operation: "setItem", key: "one", value: "1", config: { ttl: 5 } },
+      { operation: "getItem", key: "one" },
+      { operation: "removeItem", key: "one" },
+      { operation: "clear" },
+    ]);
+  });
+
+  await t.step("throws a QuotaExceededError beyond the byte quota", () => {
+    const adapter = new FakeAdapter({ quota: 20 });
+    adapter.setItem("a", "12345678");
+    assertEquals(adapter.usedBytes, 18);
+    adapter.setItem("a", "87654321");
+
+    const error = assertThrows(() => adapter.setItem("b", "1"));
+    assertInstanceOf(error, DOMException);
+    assertEquals(error.name, "QuotaExceededError");
+
+    const errors: StorageError[] = [];
+    const storage = new BrowserStorage({ adapter, onError: (error) => errors.push(error) });
+    assertEquals(storage.set("b", 1), false);
+    assertInstanceOf(errors[0], StorageQuotaError);
+  });
+
+  await t.step("scripted failures and corrupted items", () => {
+    const adapter = new FakeAdapter();
+    adapter.failNext("setItem");
+    adapter.failNext("setItem", new Error("disk full"));
+    const storage = new BrowserStorage({ adapter });
+
+    assertEquals(storage.set("one", 1), false);
+    assertThrows(() => adapter.setItem("one", "1"), Error, "disk full");
+    assertEquals(storage.set("one", 1), true);
+
+    const errors: StorageError[] = [];
+    const reporting = new BrowserStorage({ adapter, onError: (error) => errors.push(error) });
+    adapter.corrupt("one");
+    reporting.get("one");
+    assertInstanceOf(errors[0], StorageParseError);
+  });
+
+  await t.step("seeded random faults repeat for the same seed", () => {
+    const outcomes = (seed: number) => {
+      const adapter = new FakeAdapter({ faultRate: 0.5, seed });
+      return Array.from({ length: 20 }, () => {
+        try {
+          adapter.getItem("key");
+          return true;
+        } catch (error) {
+          assertInstanceOf(error, InjectedFaultError);
+          return false;
+        }
+      });
+    };
+
+    assertEquals(outcomes(7), outcomes(7));
+    assertEquals(outcomes(7).includes(false), true);
+    assertEquals(outcomes(7).includes(true), true);
+  });
+
+  await t.step("async fakes add latency per operation", async () => {
+    const adapter = new FakeAsyncAdapter({ latency: { setItem: 30 } });
+    const storage = new AsyncBrowserStorage({ adapter, strict: true });
+
+    const started = Date.now();
+    await storage.set("one", 1);
+    assertEquals(Date.now() - started >= 25, true);
+    assertEquals(await storage.get("one"), 1);
+    assertEquals(await adapter.keys(), ["one"]);
+
+    adapter.failNext("getItem");
+    await assertRejects(() => adapter.getItem("one"), InjectedFaultError);
+    assertEquals(adapter.calls.map(({ operation }) => operation), [
+      "setItem",
+      "getItem",
+      "getItem",
+    ]);
+  });
+});